@@ -1,17 +1,71 @@
 #!/usr/bin/env bun
 import type Cloudflare from "cloudflare"
 import { Command } from "commander"
-import { jwtVerify, SignJWT } from "jose"
+import {
+  calculateJwkThumbprint,
+  createRemoteJWKSet,
+  decodeJwt,
+  decodeProtectedHeader,
+  exportJWK,
+  generateKeyPair,
+  importJWK,
+  jwtVerify,
+  SignJWT
+} from "jose"
+import type { JWK, JWTHeaderParameters } from "jose"
 import readlineSync from "readline-sync"
 import { v4 as uuidv4 } from "uuid"
-import { getJWTSecret, parseExpiration } from "./shared/cli-utils"
-import { createCloudflareClient, executeD1Query, putKeyValueKV } from "./shared/cloudflare"
+import { API_KEYS_TABLE_SQL, generateAPIKey, hashAPIKey, mapAPIKeyRow } from "../server/utils/api-keys"
+import { AUTH_EVENTS_ADDED_COLUMNS, AUTH_EVENTS_INDEX_SQL, AUTH_EVENTS_TABLE_SQL } from "../server/utils/audit-log"
+import { parseJWTClaimConfig } from "../server/utils/auth"
+import {
+  getEffectiveKeyStatus,
+  getJWKKey,
+  getSigningKey,
+  getSigningKeyEntries,
+  isAsymmetricAlgorithm,
+  JWT_ASYMMETRIC_ALGORITHMS,
+  listSigningKeys,
+  planKeyRotation
+} from "../server/utils/jwks"
+import type { JWTAsymmetricAlgorithm, JWTSigningKey } from "../server/utils/jwks"
+import {
+  generateClientId,
+  generateClientSecret,
+  mapOAuthClientRow,
+  OAUTH_CLIENTS_TABLE_SQL
+} from "../server/utils/oauth-clients"
+import { ENDPOINT_SCOPES, explainPermission, grantApplies } from "../server/utils/permissions"
+import { RATE_LIMIT_TABLE_SQL } from "../server/utils/rate-limit"
+import {
+  generateRefreshToken,
+  REFRESH_TOKENS_INDEX_SQL,
+  REFRESH_TOKENS_TABLE_SQL
+} from "../server/utils/refresh-tokens"
+import { isValidIPRange, normaliseOrigin } from "../server/utils/token-binding"
+import { TOKEN_USAGE_TABLE_SQL } from "../server/utils/token-usage"
+import { getJWTPrivateKey, getJWTSecret, parseCompoundDuration, parseExpiration } from "./shared/cli-utils"
+import {
+  createCloudflareClient,
+  executeD1Query,
+  fetchAllKeysKV,
+  getKeyValueKV,
+  putKeyValueKV
+} from "./shared/cloudflare"
 
 interface JWTRequest {
   sub: string
   expiresIn?: string
   description?: string
   noExpiry?: boolean
+  permissions?: string[]
+  maxRequests?: number
+  audience?: string[]
+  notBefore?: string
+  ipAllow?: string[]
+  originAllow?: string[]
+  once?: boolean
+  issuer?: string
 }
 
 interface TokenMetadata {
@@ -20,8 +74,26 @@ interface TokenMetadata {
   description?: string
   createdAt: string
   expiresAt?: string
+  permissions?: string[]
+  maxRequests?: number
+  audience?: string[]
+  notBefore?: string
+  ipAllow?: string[]
+  originAllow?: string[]
+  once?: boolean
 }
 
+// Claim columns added to jwt_tokens after it was first created (column -> type)
+const JWT_TOKEN_CLAIM_COLUMNS = {
+  permissions: "TEXT",
+  max_requests: "INTEGER",
+  audience: "TEXT",
+  not_before: "TEXT",
+  ip_allow: "TEXT",
+  origin_allow: "TEXT",
+  single_use: "INTEGER"
+} as const
+
 const program = new Command()
 
 program.name("jwt").description("JWT Token Management for dave-io-nuxt").version("3.0.0")
@@ -43,6 +115,25 @@ function isLocalMode(): boolean {
 
 // D1 schema initialization
 
+// SQLite has no ADD COLUMN IF NOT EXISTS, so only add the columns an older table lacks
+async function addMissingD1Columns(
+  client: Cloudflare,
+  accountId: string,
+  databaseId: string,
+  table: string,
+  columns: Record<string, string>
+): Promise<void> {
+  const tableInfo = (await executeD1Query(client, accountId, databaseId, `PRAGMA table_info(${table})`)) as {
+    result?: { results?: { name: string }[] }[]
+  }
+  const existingColumns = new Set((tableInfo.result ?? []).flatMap((page) => page.results ?? []).map((c) => c.name))
+  for (const [column, type] of Object.entries(columns)) {
+    if (!existingColumns.has(column)) {
+      await executeD1Query(client, accountId, databaseId, `ALTER TABLE ${table} ADD COLUMN ${column} ${type}`)
+    }
+  }
+}
+
 async function initializeD1Schema(client: Cloudflare, accountId: string, databaseId: string): Promise<void> {
   const createTableSQL = `
     CREATE TABLE IF NOT EXISTS jwt_tokens (
@@ -60,6 +151,32 @@ async function initializeD1Schema(client: Cloudflare, accountId: string, databas
 
   await executeD1Query(client, accountId, databaseId, createTableSQL)
   await executeD1Query(client, accountId, databaseId, createIndexSQL)
+
+  await addMissingD1Columns(client, accountId, databaseId, "jwt_tokens", JWT_TOKEN_CLAIM_COLUMNS)
+  await executeD1Query(client, accountId, databaseId, TOKEN_USAGE_TABLE_SQL)
+  await executeD1Query(client, accountId, databaseId, RATE_LIMIT_TABLE_SQL)
+  await executeD1Query(client, accountId, databaseId, API_KEYS_TABLE_SQL)
+  await executeD1Query(client, accountId, databaseId, REFRESH_TOKENS_TABLE_SQL)
+  await executeD1Query(client, accountId, databaseId, REFRESH_TOKENS_INDEX_SQL)
+  await executeD1Query(client, accountId, databaseId, OAUTH_CLIENTS_TABLE_SQL)
+  await executeD1Query(client, accountId, databaseId, AUTH_EVENTS_TABLE_SQL)
+  await addMissingD1Columns(client, accountId, databaseId, "auth_events", AUTH_EVENTS_ADDED_COLUMNS)
+  for (const sql of AUTH_EVENTS_INDEX_SQL) {
+    await executeD1Query(client, accountId, databaseId, sql)
+  }
+}
+
+// Parse a JSON array column, ignoring anything that isn't one
+function parseD1List(value: unknown): string[] | undefined {
+  if (typeof value !== "string") {
+    return undefined
+  }
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.map(String) : undefined
+  } catch {
+    return undefined
+  }
 }
 
 // Map D1 result from snake_case to camelCase
@@ -70,10 +187,69 @@ function mapD1Token(dbToken: unknown): TokenMetadata {
     sub: token.sub as string,
     description: token.description as string | undefined,
     createdAt: token.created_at as string,
-    expiresAt: token.expires_at as string | undefined
+    expiresAt: token.expires_at as string | undefined,
+    permissions: parseD1List(token.permissions),
+    maxRequests: typeof token.max_requests === "number" ? token.max_requests : undefined,
+    audience: parseD1List(token.audience),
+    notBefore: (token.not_before as string | null) || undefined,
+    ipAllow: parseD1List(token.ip_allow),
+    originAllow: parseD1List(token.origin_allow),
+    ...(token.single_use ? { once: true } : {})
+  }
+}
+
+// Print the claims a token was created with
+function printTokenClaims(token: TokenMetadata, indent = ""): void {
+  console.log(`${indent}Permissions: ${token.permissions?.join(", ") || `(subject: ${token.sub})`}`)
+  console.log(`${indent}Max requests: ${token.once ? "1 (single use)" : (token.maxRequests ?? "Unlimited")}`)
+  if (token.audience) {
+    console.log(`${indent}Audience: ${token.audience.join(", ")}`)
+  }
+  if (token.notBefore) {
+    console.log(`${indent}Not before: ${token.notBefore}`)
+  }
+  if (token.ipAllow) {
+    console.log(`${indent}IP allow: ${token.ipAllow.join(", ")}`)
+  }
+  if (token.originAllow) {
+    console.log(`${indent}Origin allow: ${token.originAllow.join(", ")}`)
   }
 }
 
+// Parse --not-before as a delay from now (e.g. "1h") or an ISO date
+function parseNotBefore(value: string): number {
+  const delay = /^\d{4}-/.test(value) ? undefined : parseCompoundDuration(value)
+  const timestamp = delay === undefined ? Date.parse(value) : Date.now() + delay
+  if (timestamp > 0) {
+    return Math.floor(timestamp / 1000)
+  }
+  throw new Error(`Invalid --not-before value: ${value}`)
+}
+
+// Permission choices for the interactive picker: each category the server checks, then its endpoints
+function getPermissionChoices(): string[] {
+  return ["*", ...new Set(ENDPOINT_SCOPES.flatMap((scope) => [scope.split(":")[0] || scope, scope]))]
+}
+
+// Interactive multi-select over the permission choices, plus free-form grants like deny rules
+function pickPermissions(): string[] {
+  const picked: string[] = []
+
+  for (;;) {
+    const remaining = getPermissionChoices().filter((choice) => !picked.includes(choice))
+    const index = readlineSync.keyInSelect(remaining, `Add a permission (picked: ${picked.join(", ") || "none"})`, {
+      cancel: "Done"
+    })
+    if (index === -1 || !remaining[index]) {
+      break
+    }
+    picked.push(remaining[index])
+  }
+
+  const extra = readlineSync.question("Other grants, space-separated (optional, e.g. !ai:social api:*:read): ")
+  return [...picked, ...extra.split(/\s+/).filter(Boolean)]
+}
+
 // Execute D1 SQL command wrapper
 async function executeD1Command(sql: string, params: unknown[] = []): Promise<unknown> {
   try {
@@ -107,23 +283,48 @@ async function storeTokenMetadata(metadata: TokenMetadata, dryRun = false): Prom
     return
   }
 
-  const sql = "INSERT INTO jwt_tokens (uuid, sub, description, created_at, expires_at) VALUES (?, ?, ?, ?, ?)"
+  const sql = `INSERT INTO jwt_tokens
+    (uuid, sub, description, created_at, expires_at, permissions, max_requests, audience, not_before, ip_allow,
+     origin_allow, single_use)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
 
   const params = [
     metadata.uuid,
     metadata.sub,
     metadata.description || null,
     metadata.createdAt,
-    metadata.expiresAt || null
+    metadata.expiresAt || null,
+    metadata.permissions ? JSON.stringify(metadata.permissions) : null,
+    metadata.maxRequests ?? null,
+    metadata.audience ? JSON.stringify(metadata.audience) : null,
+    metadata.notBefore || null,
+    metadata.ipAllow ? JSON.stringify(metadata.ipAllow) : null,
+    metadata.originAllow ? JSON.stringify(metadata.originAllow) : null,
+    metadata.once ? 1 : null
   ]
 
   await executeD1Command(sql, params)
 }
 
+// Bind new tokens to the issuer and audiences this deployment is configured with, the same values the server
+// checks; without API_JWT_AUDIENCE the server expects the request origin, so the token names no audience
+function applyDefaultTokenClaims(
+  request: JWTRequest,
+  anyAudience?: boolean,
+  env: Record<string, string | undefined> = process.env
+): JWTRequest {
+  const { issuer, audience } = parseJWTClaimConfig(env.API_JWT_ISSUER, env.API_JWT_AUDIENCE)
+  request.issuer = issuer
+  request.audience = anyAudience ? undefined : request.audience || (audience.length ? audience : undefined)
+  request.notBefore ||= new Date().toISOString()
+  return request
+}
+
 // Token creation with JOSE library (compatible with our auth system)
+// A string signing key is the shared HS256 secret; a private JWK signs with its alg and kid
 async function createToken(
   options: JWTRequest,
-  secret: string,
+  signingKey: string | JWK,
   dryRun = false
 ): Promise<{ token: string; metadata: TokenMetadata }> {
   const uuid = uuidv4()
@@ -140,11 +341,35 @@ async function createToken(
     expiresAt = new Date(exp * 1000).toISOString()
   }
 
+  const nbf = options.notBefore ? parseNotBefore(options.notBefore) : undefined
+
   const jwtPayload = {
     sub: options.sub,
     iat: now,
     jti: uuid,
-    ...(exp && { exp })
+    ...(exp && { exp }),
+    ...(options.permissions?.length && { permissions: options.permissions }),
+    ...(options.audience?.length && { aud: options.audience.length === 1 ? options.audience[0] : options.audience }),
+    ...(nbf && { nbf }),
+    ...(options.ipAllow?.length && { ip_allow: options.ipAllow }),
+    ...(options.originAllow?.length && { origin_allow: options.originAllow }),
+    ...(options.once && { use: "once" }),
+    ...(options.issuer && { iss: options.issuer })
+  }
+
+  const metadata: TokenMetadata = {
+    uuid,
+    sub: options.sub,
+    description: options.description,
+    createdAt,
+    expiresAt,
+    ...(options.permissions?.length && { permissions: options.permissions }),
+    ...(options.maxRequests !== undefined && { maxRequests: options.maxRequests }),
+    ...(options.audience?.length && { audience: options.audience }),
+    ...(nbf && { notBefore: new Date(nbf * 1000).toISOString() }),
+    ...(options.ipAllow?.length && { ipAllow: options.ipAllow }),
+    ...(options.originAllow?.length && { originAllow: options.originAllow }),
+    ...(options.once && { once: true })
   }
 
   if (dryRun) {
@@ -153,41 +378,37 @@ async function createToken(
     console.log(`   Subject: ${options.sub}`)
     console.log(`   Description: ${options.description || "None"}`)
     console.log(`   Expires: ${expiresAt || "Never"}`)
-
-    const metadata: TokenMetadata = {
-      uuid,
-      sub: options.sub,
-      description: options.description,
-      createdAt,
-      expiresAt
-    }
+    console.log(`   Issuer: ${options.issuer || "None"}`)
+    printTokenClaims(metadata, "   ")
+    console.log(
+      `   Algorithm: ${typeof signingKey === "string" ? "HS256" : `${signingKey.alg} (kid ${signingKey.kid})`}`
+    )
 
     return { token: "DRY_RUN_TOKEN", metadata }
   }
 
   // Use JOSE library (same as our auth system)
-  const encoder = new TextEncoder()
-  const secretKey = encoder.encode(secret)
+  let key: CryptoKey | Uint8Array
+  let header: JWTHeaderParameters
+
+  if (typeof signingKey === "string") {
+    key = new TextEncoder().encode(signingKey)
+    header = { alg: "HS256" }
+  } else {
+    if (!signingKey.kid || !isAsymmetricAlgorithm(signingKey.alg)) {
+      throw new Error(`Private key needs a kid and an alg of ${JWT_ASYMMETRIC_ALGORITHMS.join(" or ")}`)
+    }
+    key = await importJWK(signingKey, signingKey.alg)
+    header = { alg: signingKey.alg, kid: signingKey.kid }
+  }
 
-  const jwt = new SignJWT(jwtPayload)
-    .setProtectedHeader({ alg: "HS256" })
-    .setIssuedAt(now)
-    .setSubject(options.sub)
-    .setJti(uuid)
+  const jwt = new SignJWT(jwtPayload).setProtectedHeader(header).setIssuedAt(now).setSubject(options.sub).setJti(uuid)
 
   if (exp) {
     jwt.setExpirationTime(exp)
   }
 
-  const token = await jwt.sign(secretKey)
-
-  const metadata: TokenMetadata = {
-    uuid,
-    sub: options.sub,
-    description: options.description,
-    createdAt,
-    expiresAt
-  }
+  const token = await jwt.sign(key)
 
   return { token, metadata }
 }
@@ -206,6 +427,9 @@ program
           console.log("📋 Would initialize D1 database schema:")
           console.log("   - Create table: jwt_tokens")
           console.log("   - Create index: idx_jwt_tokens_sub")
+          console.log("   - Create table: token_usage")
+          console.log("   - Create table: rate_limits")
+          console.log("   - Create table: api_keys")
         }
         return
       }
@@ -217,31 +441,263 @@ program
       }
       await initializeD1Schema(client, config.accountId, config.databaseId)
       console.log("✅ D1 database schema initialized successfully")
-      console.log("   Tables created: jwt_tokens")
-      console.log("   Indexes created: idx_jwt_tokens_sub")
+      console.log(
+        "   Tables created: jwt_tokens, token_usage, rate_limits, api_keys, refresh_tokens, oauth_clients, auth_events"
+      )
+      console.log(
+        "   Indexes created: idx_jwt_tokens_sub, idx_refresh_tokens_family, idx_auth_events_created_at, idx_auth_events_sub, idx_auth_events_jti"
+      )
     } catch (error) {
       console.error("❌ Failed to initialize D1 database schema:", error)
       process.exit(1)
     }
   })
 
+// Signing key helpers
+
+// Minimal KV namespace over wrangler so the server's signing key helpers can be reused
+async function createWranglerKV(useLocal: boolean): Promise<KVNamespace> {
+  const names = await fetchAllKeysKV(useLocal)
+  return {
+    get: async (key: string) => (names.includes(key) ? await getKeyValueKV(key, useLocal) : null),
+    list: async ({ prefix = "" }: { prefix?: string } = {}) => ({
+      keys: names.filter((name) => name.startsWith(prefix)).map((name) => ({ name })),
+      list_complete: true
+    })
+  } as unknown as KVNamespace
+}
+
+// Generate a key pair; the kid is the public key's RFC 7638 thumbprint
+async function generateSigningKey(
+  alg: JWTAsymmetricAlgorithm
+): Promise<{ key: Omit<JWTSigningKey, "status">; privateJwk: JWK }> {
+  const { publicKey, privateKey } = await generateKeyPair(alg, { extractable: true })
+  const publicJwk = await exportJWK(publicKey)
+  const kid = await calculateJwkThumbprint(publicJwk)
+  const params = { kid, alg, use: "sig" }
+
+  return {
+    key: { kid, alg, jwk: { ...publicJwk, ...params }, created_at: new Date().toISOString() },
+    privateJwk: { ...(await exportJWK(privateKey)), ...params }
+  }
+}
+
+// Write signing keys to KV
+async function publishSigningKeys(keys: JWTSigningKey[], useLocal: boolean): Promise<void> {
+  for (const key of keys) {
+    for (const [name, value] of getSigningKeyEntries(key)) {
+      await putKeyValueKV(name, value, useLocal)
+    }
+  }
+}
+
+// Print a new private key; it is never stored, so this is the only copy
+function printPrivateKey(privateJwk: JWK): void {
+  console.log("\n🔐 Private key - store it as a secret, it is not saved anywhere:")
+  console.log(`API_JWT_PRIVATE_KEY='${JSON.stringify(privateJwk)}'`)
+}
+
+function validateAlgorithm(alg: string): JWTAsymmetricAlgorithm {
+  if (!isAsymmetricAlgorithm(alg)) {
+    console.error(`❌ Unsupported algorithm: ${alg}. Use one of: ${JWT_ASYMMETRIC_ALGORITHMS.join(", ")}`)
+    process.exit(1)
+  }
+  return alg
+}
+
+// Key generation command
+program
+  .command("keygen")
+  .description("Generate the first asymmetric signing key and publish it as primary")
+  .option("-a, --alg <alg>", `Signing algorithm (${JWT_ASYMMETRIC_ALGORITHMS.join(", ")})`, "ES256")
+  .option("-d, --dry-run", "Generate the key pair without publishing the public key")
+  .action(async (options) => {
+    const scriptMode = isScriptMode()
+    const alg = validateAlgorithm(options.alg)
+
+    try {
+      const useLocal = isLocalMode()
+      if (!options.dryRun) {
+        const keys = await listSigningKeys(await createWranglerKV(useLocal))
+        if (keys.some((key) => key.status === "primary")) {
+          console.error("❌ A primary signing key already exists. Use 'bun jwt rotate' to replace it")
+          process.exit(1)
+        }
+      }
+
+      const { key, privateJwk } = await generateSigningKey(alg)
+      const primary: JWTSigningKey = { ...key, status: "primary" }
+
+      if (!options.dryRun) {
+        await publishSigningKeys([primary], useLocal)
+      }
+
+      if (scriptMode) {
+        const output = {
+          success: true,
+          dryRun: options.dryRun || false,
+          kid: key.kid,
+          publicKey: key.jwk,
+          privateKey: privateJwk
+        }
+        console.log(JSON.stringify(output, null, 2))
+        return
+      }
+
+      console.log(`\n✅ ${alg} signing key generated (kid ${key.kid})\n`)
+      console.log(
+        options.dryRun
+          ? "📋 Dry run - public key was not published"
+          : "📤 Public key published to KV as primary and served at /.well-known/jwks.json"
+      )
+      printPrivateKey(privateJwk)
+    } catch (error) {
+      console.error("❌ Failed to generate signing key:", error)
+      process.exit(1)
+    }
+  })
+
+// Key rotation command
+program
+  .command("rotate")
+  .description("Create a new primary signing key and retire the old one after a grace period")
+  .option("-a, --alg <alg>", `Signing algorithm (${JWT_ASYMMETRIC_ALGORITHMS.join(", ")})`, "ES256")
+  .option("-g, --grace <time>", 'How long the old key keeps verifying tokens (e.g., "7d", "30d")', "30d")
+  .option("-d, --dry-run", "Show the key changes without making them")
+  .action(async (options) => {
+    const scriptMode = isScriptMode()
+    const alg = validateAlgorithm(options.alg)
+
+    try {
+      const useLocal = isLocalMode()
+      const keys = await listSigningKeys(await createWranglerKV(useLocal))
+      const { key, privateJwk } = await generateSigningKey(alg)
+      const changes = planKeyRotation(keys, key, { graceSeconds: parseExpiration(options.grace) })
+
+      if (!options.dryRun) {
+        await publishSigningKeys(changes, useLocal)
+      }
+
+      if (scriptMode) {
+        const output = {
+          success: true,
+          dryRun: options.dryRun || false,
+          kid: key.kid,
+          changes: changes.map(({ kid, status, retire_at }) => ({ kid, status, retire_at })),
+          privateKey: privateJwk
+        }
+        console.log(JSON.stringify(output, null, 2))
+        return
+      }
+
+      console.log(`\n🔄 ${options.dryRun ? "Would rotate" : "Rotated"} signing keys:\n`)
+      for (const change of changes) {
+        const retires = change.retire_at ? ` (retires ${change.retire_at})` : ""
+        console.log(`   ${change.kid}: ${change.status}${retires}`)
+      }
+
+      if (!options.dryRun) {
+        printPrivateKey(privateJwk)
+        console.log("\n💡 Update API_JWT_PRIVATE_KEY wherever tokens are created; tokens signed with the")
+        console.log(`   previous key keep working for ${options.grace}, and the API stops signing with it`)
+        console.log("   once it is retired")
+      }
+    } catch (error) {
+      console.error("❌ Failed to rotate signing keys:", error)
+      process.exit(1)
+    }
+  })
+
+// List signing keys command
+program
+  .command("keys")
+  .description("List signing keys and their status")
+  .action(async () => {
+    try {
+      const keys = await listSigningKeys(await createWranglerKV(isLocalMode()))
+
+      if (isScriptMode()) {
+        const output = keys.map((key) => ({ ...key, status: getEffectiveKeyStatus(key) }))
+        console.log(JSON.stringify(output, null, 2))
+        return
+      }
+
+      if (keys.length === 0) {
+        console.log("📭 No signing keys found. Run 'bun jwt keygen' to create one")
+        return
+      }
+
+      console.log(`\n🔑 Found ${keys.length} signing keys:\n`)
+      for (const key of keys) {
+        console.log(`🔑 ${key.kid}`)
+        console.log(`   Algorithm: ${key.alg}`)
+        console.log(`   Status: ${getEffectiveKeyStatus(key)}`)
+        console.log(`   Created: ${key.created_at || "Unknown"}`)
+        if (key.retire_at) {
+          console.log(`   Retires: ${key.retire_at}`)
+        }
+        console.log()
+      }
+    } catch (error) {
+      console.error("❌ Error listing signing keys:", error)
+      process.exit(1)
+    }
+  })
+
+// Retire signing key command
+program
+  .command("retire <kid>")
+  .description("Retire a signing key immediately (e.g. if it was compromised)")
+  .option("--confirm", "Skip confirmation prompt")
+  .action(async (kid, options) => {
+    try {
+      const useLocal = isLocalMode()
+      const key = await getSigningKey(await createWranglerKV(useLocal), kid)
+      if (!key) {
+        console.error(`❌ Signing key ${kid} not found`)
+        process.exit(1)
+      }
+
+      if (!options.confirm) {
+        console.log(`\n⚠️  WARNING: Every token signed with ${kid} will stop working immediately.`)
+        if (key.status === "primary") {
+          console.log("   This is the primary key - run 'bun jwt rotate' first to keep issuing tokens.")
+        }
+        if (!readlineSync.keyInYN("\nAre you sure you want to retire this key?")) {
+          console.log("❌ Key retirement cancelled")
+          process.exit(1)
+        }
+      }
+
+      await putKeyValueKV(getJWKKey(kid, "status"), "retired", useLocal)
+      console.log(`✅ Signing key ${kid} retired`)
+    } catch (error) {
+      console.error("❌ Failed to retire signing key:", error)
+      process.exit(1)
+    }
+  })
+
 // Verify token command
 program
   .command("verify <token>")
   .description("Verify a JWT token")
-  .option("--secret <secret>", "JWT secret key")
+  .option("--secret <secret>", "JWT secret key (HS256 tokens)")
+  .option("--jwks <url>", "JWK Set URL (ES256/EdDSA tokens)", "https://dave.io/.well-known/jwks.json")
   .action(async (token, options) => {
-    const secret = options.secret || getJWTSecret()
-    if (!secret) {
-      console.error("❌ JWT secret is required. Set API_JWT_SECRET env var or use --secret option")
-      process.exit(1)
-    }
-
     try {
-      const encoder = new TextEncoder()
-      const secretKey = encoder.encode(secret)
+      // HS256 tokens are checked with the shared secret, asymmetric ones against the published keys
+      const isHS256 = decodeProtectedHeader(token).alg === "HS256"
+      const secret = options.secret || getJWTSecret()
+      if (isHS256 && !secret) {
+        console.error("❌ JWT secret is required. Set API_JWT_SECRET env var or use --secret option")
+        process.exit(1)
+      }
 
-      const { payload } = await jwtVerify(token, secretKey)
+      const { payload } = isHS256
+        ? await jwtVerify(token, new TextEncoder().encode(secret!), { algorithms: ["HS256"] })
+        : await jwtVerify(token, createRemoteJWKSet(new URL(options.jwks)), {
+            algorithms: [...JWT_ASYMMETRIC_ALGORITHMS]
+          })
 
       console.log("✅ Token is valid")
       console.log("\n🔍 Token Details:")
@@ -269,12 +725,20 @@ program
   .option("-d, --description <text>", "Description of the token purpose")
   .option("--no-expiry", "Create a token that never expires (requires confirmation)")
   .option("--seriously-no-expiry", "Skip confirmation for no-expiry tokens (use with caution)")
-  .option("--secret <secret>", "JWT secret key")
+  .option("-p, --perm <permission...>", "Permissions granted to the token (e.g. ai:alt api:*:read !ai:social)")
+  .option("--max-requests <number>", "Request quota for the token", (value) => Number.parseInt(value, 10))
+  .option("--aud <audience...>", "Audiences the token is intended for [default: API_JWT_AUDIENCE, else none]")
+  .option("--any-audience", "Leave out the aud claim so the token works on every deployment")
+  .option("--not-before <time>", 'Delay before the token becomes valid (e.g. "1h") or an ISO date [default: now]')
+  .option("--ip-allow <cidr...>", "IP addresses or CIDR ranges the token may be used from")
+  .option("--origin-allow <origin...>", "Origins the token may be used from (e.g. https://dave.io)")
+  .option("--once", "Make the token single-use: it is consumed by its first authorized request")
+  .option("--secret <secret>", "JWT secret key (signs with HS256 even when API_JWT_PRIVATE_KEY is set)")
   .option("-i, --interactive", "Interactive mode")
   .option("--dry-run", "Show what would be created without generating actual token")
   .action(async (options) => {
     let tokenRequest: JWTRequest
-    let secret: string
+    let signingKey: string | JWK
     const scriptMode = isScriptMode()
 
     if (options.interactive && !scriptMode) {
@@ -287,6 +751,9 @@ program
       }
 
       const description = readlineSync.question("Enter description (optional): ") || undefined
+
+      console.log("\nPick the token's permissions (none falls back to the subject):")
+      const permissions = pickPermissions()
       const expiresIn =
         readlineSync.question('Enter expiration (optional, e.g., "1h", "7d") [default: 30d]: ') || undefined
 
@@ -300,9 +767,13 @@ program
         }
       }
 
-      secret = options.secret || getJWTSecret() || readlineSync.question("Enter JWT secret: ", { hideEchoBack: true })
+      signingKey =
+        options.secret ||
+        getJWTPrivateKey() ||
+        getJWTSecret() ||
+        readlineSync.question("Enter JWT secret: ", { hideEchoBack: true })
 
-      tokenRequest = { sub, description, expiresIn, noExpiry }
+      tokenRequest = { sub, description, expiresIn, noExpiry, permissions }
     } else {
       if (!options.sub) {
         console.error("❌ Subject (--sub) is required")
@@ -329,9 +800,35 @@ program
         noExpiry = true
       }
 
-      secret = options.secret || getJWTSecret()
-      if (!secret) {
-        console.error("❌ JWT secret is required. Set API_JWT_SECRET env var or use --secret option")
+      // Prefer the asymmetric private key; the shared secret still works during the migration
+      const key = options.secret || getJWTPrivateKey() || getJWTSecret()
+      if (!key) {
+        console.error(
+          "❌ A signing key is required. Set API_JWT_PRIVATE_KEY or API_JWT_SECRET env var, or use --secret option"
+        )
+        process.exit(1)
+      }
+      signingKey = key
+
+      if (options.maxRequests !== undefined && !(options.maxRequests > 0)) {
+        console.error("❌ --max-requests must be a positive number")
+        process.exit(1)
+      }
+
+      if (options.once && options.maxRequests !== undefined) {
+        console.error("❌ --once and --max-requests can't be combined: single-use tokens allow one request")
+        process.exit(1)
+      }
+
+      const invalidRange = options.ipAllow?.find((range: string) => !isValidIPRange(range))
+      if (invalidRange) {
+        console.error(`❌ Invalid --ip-allow value: ${invalidRange}`)
+        process.exit(1)
+      }
+
+      const invalidOrigin = options.originAllow?.find((origin: string) => !normaliseOrigin(origin))
+      if (invalidOrigin) {
+        console.error(`❌ Invalid --origin-allow value: ${invalidOrigin}`)
         process.exit(1)
       }
 
@@ -339,12 +836,21 @@ program
         sub: options.sub,
         description: options.description,
         expiresIn: options.expiry,
-        noExpiry
+        noExpiry,
+        permissions: options.perm,
+        maxRequests: options.maxRequests,
+        audience: options.aud,
+        notBefore: options.notBefore,
+        ipAllow: options.ipAllow,
+        originAllow: options.originAllow?.map((origin: string) => normaliseOrigin(origin) as string),
+        once: options.once
       }
     }
 
+    applyDefaultTokenClaims(tokenRequest, options.anyAudience)
+
     try {
-      const { token, metadata } = await createToken(tokenRequest, secret, options.dryRun)
+      const { token, metadata } = await createToken(tokenRequest, signingKey, options.dryRun)
 
       if (options.dryRun) {
         if (scriptMode) {
@@ -375,6 +881,11 @@ program
         }
       }
 
+      // The API enforces quotas from KV
+      if (metadata.maxRequests !== undefined) {
+        await putKeyValueKV(`token:${metadata.uuid}:max-requests`, String(metadata.maxRequests), isLocalMode())
+      }
+
       if (scriptMode) {
         // Script mode: output structured JSON
         const output = {
@@ -481,6 +992,7 @@ program
       console.log(`Description: ${token.description || "No description"}`)
       console.log(`Created: ${token.createdAt}`)
       console.log(`Expires: ${token.expiresAt || "Never"}`)
+      printTokenClaims(token)
 
       if (token.expiresAt) {
         const isExpired = new Date(token.expiresAt) <= new Date()
@@ -530,7 +1042,7 @@ program
           console.log(`   Subject: ${tokenInfo.sub}`)
           console.log(`   Description: ${tokenInfo.description || "No description"}`)
         }
-        console.log(`   Would set KV key: auth:revocation:${uuid} = "true"`)
+        console.log(`   Would set KV key: token:${uuid}:revoked = "true"`)
         return
       }
 
@@ -550,7 +1062,7 @@ program
 
       // Set revocation flag in KV using wrangler CLI
       const useLocal = isLocalMode()
-      await putKeyValueKV(`auth:revocation:${uuid}`, "true", useLocal)
+      await putKeyValueKV(`token:${uuid}:revoked`, "true", useLocal)
 
       console.log("✅ Token revoked successfully")
       console.log("   The token is now immediately invalid and cannot be used")
@@ -611,6 +1123,7 @@ program
         console.log(`🔑 ${token.uuid}`)
         console.log(`   Subject: ${token.sub}`)
         console.log(`   Description: ${token.description || "No description"}`)
+        printTokenClaims(token, "   ")
         console.log(`   Status: ${expiryStatus}`)
         console.log()
       }
@@ -620,21 +1133,402 @@ program
     }
   })
 
+// Permission commands
+const permissions = program.command("permissions").description("Inspect how permission grants apply")
+
+permissions
+  .command("explain <resource>")
+  .description("Show which grant allows or blocks a resource (e.g. ai:social)")
+  .option("--perm <permission...>", "Grants to check (e.g. ai !ai:social api:*:read)")
+  .option("--token <token>", "Check the grants in a token (decoded without verifying its signature)")
+  .action((resource, options) => {
+    let grants: string[] | undefined = options.perm
+    if (options.token) {
+      const payload = decodeJwt(options.token)
+      grants = Array.isArray(payload.permissions) ? (payload.permissions as string[]) : [String(payload.sub)]
+    }
+
+    if (!grants) {
+      console.error("❌ Provide grants with --perm or a token with --token")
+      process.exit(1)
+    }
+
+    const explanation = explainPermission(grants, resource)
+
+    if (isScriptMode()) {
+      console.log(JSON.stringify({ resource, grants, ...explanation }))
+      return
+    }
+
+    console.log(`\n🔍 ${resource}\n`)
+    for (const grant of grants) {
+      const marker = grant === explanation.grant ? "👉" : "  "
+      const applies = grantApplies(grant, resource) ? "✓" : "·"
+      console.log(`${marker} ${applies} ${grant}${grant.startsWith("!") ? " (deny)" : ""}`)
+    }
+    console.log()
+
+    if (explanation.denied) {
+      console.log(`🚫 Blocked by deny rule '${explanation.grant}' (deny beats allow)`)
+    } else if (explanation.allowed) {
+      console.log(`✅ Allowed by '${explanation.grant}'`)
+    } else {
+      console.log("🚫 Blocked: no grant covers this resource")
+    }
+  })
+
+// API key commands
+const apikey = program.command("apikey").description("Manage long-lived API keys for scripts (sent as X-API-Key)")
+
+apikey
+  .command("create")
+  .description("Mint a new API key")
+  .requiredOption("--perm <permission...>", "Permissions granted to the key (e.g. api:metrics ai:*)")
+  .option("--description <text>", "Who owns the key and what it is for")
+  .option("-e, --expiry <time>", "Expiration time (e.g. 90d, 1y); keys don't expire by default")
+  .option("-d, --dry-run", "Show what would be created without making changes")
+  .action(async (options) => {
+    try {
+      const id = uuidv4()
+      const createdAt = new Date().toISOString()
+      const expiresAt = options.expiry
+        ? new Date(Date.now() + parseExpiration(options.expiry) * 1000).toISOString()
+        : undefined
+
+      if (options.dryRun) {
+        console.log("📋 Would create API key:")
+        console.log(`   ID: ${id}`)
+        console.log(`   Permissions: ${options.perm.join(", ")}`)
+        console.log(`   Description: ${options.description || "None"}`)
+        console.log(`   Expires: ${expiresAt || "Never"}`)
+        return
+      }
+
+      const key = generateAPIKey()
+      await executeD1Command(
+        "INSERT INTO api_keys (id, key_hash, description, permissions, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)",
+        [
+          id,
+          await hashAPIKey(key),
+          options.description || null,
+          JSON.stringify(options.perm),
+          createdAt,
+          expiresAt || null
+        ]
+      )
+
+      if (isScriptMode()) {
+        console.log(JSON.stringify({ id, key, permissions: options.perm, expiresAt: expiresAt || null }))
+        return
+      }
+
+      console.log("✅ API key created")
+      console.log(`   ID: ${id}`)
+      console.log(`   Permissions: ${options.perm.join(", ")}`)
+      console.log(`   Expires: ${expiresAt || "Never"}`)
+      console.log(`\n🔑 ${key}\n`)
+      console.log("   Store this key now - only its hash is kept and it cannot be shown again")
+    } catch (error) {
+      console.error("❌ Failed to create API key:", error)
+      process.exit(1)
+    }
+  })
+
+apikey
+  .command("list")
+  .description("List API keys")
+  .option("--all", "Include revoked keys")
+  .action(async (options) => {
+    try {
+      const result = await executeD1Command(
+        `SELECT id, description, permissions, created_at, expires_at, revoked_at FROM api_keys ${
+          options.all ? "" : "WHERE revoked_at IS NULL "
+        }ORDER BY created_at DESC`
+      )
+      const keys = (Array.isArray(result) ? result : []).map((row) => mapAPIKeyRow(row as Record<string, unknown>))
+
+      if (keys.length === 0) {
+        console.log("📭 No API keys found")
+        return
+      }
+
+      console.log(`\n📋 Found ${keys.length} API keys:\n`)
+      for (const key of keys) {
+        const status = key.revokedAt
+          ? "🚫 Revoked"
+          : key.expiresAt && new Date(key.expiresAt) <= new Date()
+            ? "❌ Expired"
+            : "✅ Valid"
+
+        console.log(`🔑 ${key.id} ${status}`)
+        console.log(`   Permissions: ${key.permissions.join(", ")}`)
+        console.log(`   Description: ${key.description || "No description"}`)
+        console.log(`   Created: ${key.createdAt}`)
+        console.log(`   Expires: ${key.expiresAt || "Never"}`)
+        console.log()
+      }
+    } catch (error) {
+      console.error("❌ Error listing API keys:", error)
+      process.exit(1)
+    }
+  })
+
+apikey
+  .command("revoke <id>")
+  .description("Revoke an API key by ID")
+  .option("--confirm", "Skip confirmation prompt")
+  .action(async (id, options) => {
+    try {
+      if (!options.confirm) {
+        const confirmed = readlineSync.keyInYN(`\nRevoke API key ${id}? Scripts using it will stop working.`)
+        if (!confirmed) {
+          console.log("❌ API key revocation cancelled")
+          process.exit(1)
+        }
+      }
+
+      const result = await executeD1Command(
+        "UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL RETURNING id",
+        [new Date().toISOString(), id]
+      )
+      if (!Array.isArray(result) || result.length === 0) {
+        console.error(`❌ No active API key with ID ${id}`)
+        process.exit(1)
+      }
+
+      console.log(`✅ API key ${id} revoked`)
+    } catch (error) {
+      console.error("❌ Failed to revoke API key:", error)
+      process.exit(1)
+    }
+  })
+
+// Refresh token commands
+const refresh = program
+  .command("refresh")
+  .description("Manage refresh tokens, exchanged at POST /api/auth/token for 15-minute access tokens")
+
+refresh
+  .command("create")
+  .description("Mint a refresh token that starts a new token family")
+  .requiredOption("-s, --sub <subject>", "Subject for the access tokens")
+  .option("-p, --perm <permission...>", "Permissions granted to the access tokens (none falls back to the subject)")
+  .option("-e, --expiry <time>", "How long the family can keep refreshing (e.g. 7d, 90d) [default: 30d]")
+  .option("-d, --dry-run", "Show what would be created without making changes")
+  .action(async (options) => {
+    try {
+      const id = uuidv4()
+      const createdAt = new Date().toISOString()
+      const expiresAt = new Date(Date.now() + parseExpiration(options.expiry || "30d") * 1000).toISOString()
+
+      if (options.dryRun) {
+        console.log("📋 Would create refresh token:")
+        console.log(`   Family: ${id}`)
+        console.log(`   Subject: ${options.sub}`)
+        console.log(`   Permissions: ${options.perm?.join(", ") || `(subject: ${options.sub})`}`)
+        console.log(`   Expires: ${expiresAt}`)
+        return
+      }
+
+      // The first token's ID doubles as the family ID
+      const token = generateRefreshToken()
+      await executeD1Command(
+        `INSERT INTO refresh_tokens (id, family_id, token_hash, sub, permissions, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          id,
+          await hashAPIKey(token),
+          options.sub,
+          options.perm ? JSON.stringify(options.perm) : null,
+          createdAt,
+          expiresAt
+        ]
+      )
+
+      if (isScriptMode()) {
+        console.log(JSON.stringify({ family: id, refreshToken: token, expiresAt }))
+        return
+      }
+
+      console.log("✅ Refresh token created")
+      console.log(`   Family: ${id}`)
+      console.log(`   Expires: ${expiresAt}`)
+      console.log(`\n🔄 ${token}\n`)
+      console.log("   Each exchange returns a replacement; reusing an old token revokes the whole family")
+    } catch (error) {
+      console.error("❌ Failed to create refresh token:", error)
+      process.exit(1)
+    }
+  })
+
+refresh
+  .command("revoke <family>")
+  .description("Revoke every refresh token in a family")
+  .action(async (family) => {
+    try {
+      const result = await executeD1Command(
+        "UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL RETURNING id",
+        [new Date().toISOString(), family]
+      )
+      if (!Array.isArray(result) || result.length === 0) {
+        console.error(`❌ No active refresh tokens in family ${family}`)
+        process.exit(1)
+      }
+
+      console.log(`✅ Refresh token family ${family} revoked (access tokens expire within 15 minutes)`)
+    } catch (error) {
+      console.error("❌ Failed to revoke refresh token family:", error)
+      process.exit(1)
+    }
+  })
+
+// OAuth client commands
+const oauthClient = program
+  .command("client")
+  .description("Manage OAuth2 clients for services (client_credentials grant at POST /oauth/token)")
+
+oauthClient
+  .command("create")
+  .description("Register a new OAuth client")
+  .requiredOption("--scope <scope...>", "Scopes the client may request (e.g. api:metrics ai !ai:social)")
+  .option("--name <text>", "Which service the client is for")
+  .option("-d, --dry-run", "Show what would be created without making changes")
+  .action(async (options) => {
+    try {
+      const clientId = generateClientId()
+
+      if (options.dryRun) {
+        console.log("📋 Would register OAuth client:")
+        console.log(`   Client ID: ${clientId}`)
+        console.log(`   Name: ${options.name || "None"}`)
+        console.log(`   Scopes: ${options.scope.join(", ")}`)
+        return
+      }
+
+      const secret = generateClientSecret()
+      await executeD1Command(
+        "INSERT INTO oauth_clients (client_id, secret_hash, name, scopes, created_at) VALUES (?, ?, ?, ?, ?)",
+        [
+          clientId,
+          await hashAPIKey(secret),
+          options.name || null,
+          JSON.stringify(options.scope),
+          new Date().toISOString()
+        ]
+      )
+
+      if (isScriptMode()) {
+        console.log(JSON.stringify({ clientId, clientSecret: secret, scopes: options.scope }))
+        return
+      }
+
+      console.log("✅ OAuth client registered")
+      console.log(`   Client ID: ${clientId}`)
+      console.log(`   Scopes: ${options.scope.join(", ")}`)
+      console.log(`\n🔑 ${secret}\n`)
+      console.log("   Store this secret now - only its hash is kept and it cannot be shown again")
+    } catch (error) {
+      console.error("❌ Failed to register OAuth client:", error)
+      process.exit(1)
+    }
+  })
+
+oauthClient
+  .command("list")
+  .description("List OAuth clients")
+  .option("--all", "Include revoked clients")
+  .action(async (options) => {
+    try {
+      const result = await executeD1Command(
+        `SELECT client_id, name, scopes, created_at, revoked_at FROM oauth_clients ${
+          options.all ? "" : "WHERE revoked_at IS NULL "
+        }ORDER BY created_at DESC`
+      )
+      const clients = (Array.isArray(result) ? result : []).map((row) =>
+        mapOAuthClientRow(row as Record<string, unknown>)
+      )
+
+      if (clients.length === 0) {
+        console.log("📭 No OAuth clients found")
+        return
+      }
+
+      console.log(`\n📋 Found ${clients.length} OAuth clients:\n`)
+      for (const client of clients) {
+        console.log(`🤖 ${client.clientId} ${client.revokedAt ? "🚫 Revoked" : "✅ Active"}`)
+        console.log(`   Name: ${client.name || "No name"}`)
+        console.log(`   Scopes: ${client.scopes.join(", ")}`)
+        console.log(`   Created: ${client.createdAt}`)
+        console.log()
+      }
+    } catch (error) {
+      console.error("❌ Error listing OAuth clients:", error)
+      process.exit(1)
+    }
+  })
+
+oauthClient
+  .command("revoke <clientId>")
+  .description("Revoke an OAuth client; tokens it already holds expire within the hour")
+  .option("--confirm", "Skip confirmation prompt")
+  .action(async (clientId, options) => {
+    try {
+      if (!options.confirm) {
+        const confirmed = readlineSync.keyInYN(
+          `\nRevoke OAuth client ${clientId}? The service will stop getting tokens.`
+        )
+        if (!confirmed) {
+          console.log("❌ OAuth client revocation cancelled")
+          process.exit(1)
+        }
+      }
+
+      const result = await executeD1Command(
+        "UPDATE oauth_clients SET revoked_at = ? WHERE client_id = ? AND revoked_at IS NULL RETURNING client_id",
+        [new Date().toISOString(), clientId]
+      )
+      if (!Array.isArray(result) || result.length === 0) {
+        console.error(`❌ No active OAuth client with ID ${clientId}`)
+        process.exit(1)
+      }
+
+      console.log(`✅ OAuth client ${clientId} revoked`)
+    } catch (error) {
+      console.error("❌ Failed to revoke OAuth client:", error)
+      process.exit(1)
+    }
+  })
+
 // Add help text to the main program
 program.addHelpText(
   "after",
   `
 Commands:
   init                Initialize D1 database schema for JWT tokens
+  keygen              Generate the first ES256/EdDSA signing key and publish it as primary
+  rotate              Promote a new signing key; the old one verifies for a grace period
+  keys                List signing keys and their status
+  retire <kid>        Retire a signing key immediately
   create              Create a new JWT token
   verify <token>      Verify and inspect a JWT token
   list                List all stored tokens
   show <uuid>         Show details of a specific token
   search              Search tokens by criteria
   revoke <uuid>       Revoke a token by UUID
+  permissions explain <resource>  Show which grant allows or blocks a resource
+  apikey create       Mint an API key (stored hashed, shown once)
+  apikey list         List API keys
+  apikey revoke <id>  Revoke an API key
+  refresh create      Mint a refresh token for POST /api/auth/token (stored hashed, shown once)
+  refresh revoke <family>  Revoke a refresh token family
+  client create       Register an OAuth client for POST /oauth/token (secret shown once)
+  client list         List OAuth clients
+  client revoke <id>  Revoke an OAuth client
 
 Environment Variables:
-  API_JWT_SECRET                  JWT secret key
+  API_JWT_SECRET                  JWT secret key (HS256)
+  API_JWT_PRIVATE_KEY            Private JWK from 'bun jwt keygen' (ES256/EdDSA, preferred when set)
   CLOUDFLARE_API_TOKEN           Cloudflare API token with D1/KV permissions
   CLOUDFLARE_ACCOUNT_ID          Your Cloudflare account ID
   CLOUDFLARE_D1_DATABASE_ID      D1 database ID (defaults to wrangler.jsonc binding)
@@ -651,16 +1545,26 @@ Setup Requirements:
 
 Examples:
   bun jwt init                                                       # Initialize D1 schema
+  bun jwt keygen --alg EdDSA                                         # First signing key
+  bun jwt rotate --grace "30d"                                       # Replace the primary key
+  bun jwt keys
   bun jwt create --sub "api:metrics" --description "Metrics access"  # 30d default expiry
   bun jwt create --sub "ai:alt" --expiry "7d"
   bun jwt create --sub "admin" --no-expiry --seriously-no-expiry     # No expiry (dangerous)
   bun jwt create --sub "api" --description "API access" --expiry "1y"
+  bun jwt create --sub "scripts" --perm "ai" "!ai:social" --max-requests 1000 --ip-allow "203.0.113.0/24"
+  bun jwt create --sub "dashboard" --expiry "1d" --origin-allow "https://dave.io"
   bun jwt verify "eyJhbGciOiJIUzI1NiJ9..."
   bun jwt list
   bun jwt show <uuid>
   bun jwt search --sub "ai"
   bun jwt search --description "Dave"
   bun jwt revoke <uuid>
+  bun jwt permissions explain ai:social --perm "ai" "!ai:social"
+  bun jwt apikey create --perm "api:metrics" --description "Grafana scraper" --expiry "1y"
+  bun jwt apikey list
+  bun jwt refresh create --sub "dashboard" --perm "api:metrics" --expiry "7d"
+  bun jwt client create --name "status page" --scope "api:metrics" "ai:alt"
 
 Security Notes:
   - Tokens default to 30-day expiration for security
@@ -668,6 +1572,7 @@ Security Notes:
   - Use --seriously-no-expiry to skip confirmation (use with extreme caution)
   - This version is compatible with our Nuxt API authentication system
   - Token metadata is stored in D1, revocation is handled via KV storage
+  - Signing keys are primary (signs new tokens), verify-only (previous key during its grace period) or retired
 `
 )
 
@@ -680,4 +1585,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   main()
 }
 
-export { createToken }
+export { applyDefaultTokenClaims, createToken }
@@ -24,6 +24,7 @@ import { resolve } from "node:path"
 import { Command } from "commander"
 import yaml from "js-yaml"
 import JSON5 from "json5"
+import { findRedirectAliasProblems } from "../server/utils/redirects"
 import { getTimestamp, keyMatchesPatterns, tryParseJson } from "./shared/cli-utils"
 import { deleteKeyKV, fetchAllKeysKV, getKeyValueKV, putKeyValueKV } from "./shared/cloudflare"
 
@@ -34,6 +35,7 @@ const EXPORT_DIR = "data/kv"
 const EXPORT_KEY_PATTERNS = [
   /^metrics:.*$/, // All metrics keys (flat hierarchy)
   /^redirect:.*$/, // All redirect mapping keys
+  /^meta:.*$/, // Redirect metadata (title, description, timestamps)
   /^dashboard:.*$/, // Dashboard cache data
   /^token:.*$/ // Token management keys
 ]
@@ -240,6 +242,29 @@ function convertToFlatStructure(nestedData: Record<string, unknown>, prefix = ""
   return flat
 }
 
+// Convert an imported YAML value to a simple KV string - avoid JSON wrapper objects
+function formatKVValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return value.toString()
+  }
+  // Unquoted timestamps (e.g. redirect expires-at) are parsed by YAML as dates
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (value === null || value === undefined) {
+    return ""
+  }
+  // Lists such as redirect rules and variants are read back with JSON.parse
+  if (Array.isArray(value)) {
+    return JSON.stringify(value)
+  }
+  // For complex objects, use JSON5 but this should be rare with simple KV structure
+  return JSON5.stringify(value, null, 0)
+}
+
 // Get all KV keys with their values, filtering by patterns if specified
 async function getAllKVData(exportAll = false, useLocal = false) {
   console.log(
@@ -353,6 +378,25 @@ function checkOverwriteConfirmation(options: { yes?: boolean; y?: boolean }): bo
   return false
 }
 
+// Warn about redirects that alias each other in a loop or alias a slug that doesn't exist
+function reportRedirectAliasProblems(importData: Record<string, unknown>): void {
+  const { cycles, dangling } = findRedirectAliasProblems(importData)
+
+  if (cycles.length > 0) {
+    console.warn(`⚠️ WARNING: ${cycles.length} redirect alias loops (visitors will get 508 Loop Detected):`)
+    for (const cycle of cycles) {
+      console.warn(`  - ${cycle.join(" -> ")}`)
+    }
+  }
+
+  if (dangling.length > 0) {
+    console.warn(`⚠️ WARNING: ${dangling.length} redirect aliases point at slugs missing from this import:`)
+    for (const { slug, target } of dangling) {
+      console.warn(`  - ${slug} -> ${target}`)
+    }
+  }
+}
+
 // Import KV data from YAML file
 async function importKV(
   filename: string,
@@ -406,6 +450,7 @@ async function importKV(
     const importData = convertToFlatStructure(nestedImportData)
     const importKeys = Object.keys(importData)
     console.log(`📊 Found ${importKeys.length} keys to import`)
+    reportRedirectAliasProblems(importData)
 
     if (importKeys.length === 0) {
       console.log("✅ Nothing to import - file contains no keys")
@@ -417,7 +462,7 @@ async function importKV(
       console.log("\n🔍 Keys that would be imported:")
       for (const key of importKeys.slice(0, 20)) {
         const value = importData[key]
-        const valueStr = typeof value === "string" ? value : JSON5.stringify(value, null, 0)
+        const valueStr = formatKVValue(value)
         const preview = valueStr.substring(0, 50) + (valueStr.length > 50 ? "..." : "")
         console.log(`  - ${key}: ${preview}`)
       }
@@ -477,20 +522,7 @@ async function importKV(
 
     for (const [key, value] of Object.entries(importData)) {
       try {
-        // Convert value to simple string - avoid JSON wrapper objects
-        let valueStr: string
-        if (typeof value === "string") {
-          valueStr = value
-        } else if (typeof value === "number") {
-          valueStr = value.toString()
-        } else if (typeof value === "boolean") {
-          valueStr = value.toString()
-        } else if (value === null || value === undefined) {
-          valueStr = ""
-        } else {
-          // For complex objects, use JSON5 but this should be rare with simple KV structure
-          valueStr = JSON5.stringify(value, null, 0)
-        }
+        const valueStr = formatKVValue(value)
 
         await putKeyValueKV(key, valueStr, options.local)
 
@@ -632,6 +664,7 @@ Remote mode connects to the actual Cloudflare KV namespace via API.
 Export Patterns (Updated for simple key structure):
   - metrics:* (all individual metrics keys using colon hierarchy)
   - redirect:* (individual redirect mapping keys)
+  - meta:* (redirect metadata as individual keys)
   - dashboard:* (dashboard cache data as individual keys)
   - token:* (token management data as individual keys)
 `
@@ -646,4 +679,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   main()
 }
 
-export { wipeKV, exportKV, importKV }
+export { wipeKV, exportKV, importKV, convertToNestedStructure, convertToFlatStructure, formatKVValue }
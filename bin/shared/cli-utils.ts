@@ -2,6 +2,8 @@
  * Shared CLI utilities and constants for CLI tools
  */
 
+import type { JWK } from "jose"
+
 /**
  * Get current timestamp in format YYYY-MM-DD-HHmmss
  */
@@ -70,6 +72,22 @@ export function getJWTSecret(): string | null {
   return process.env.API_JWT_SECRET || null
 }
 
+/**
+ * Private JWK for asymmetric token signing (API_JWT_PRIVATE_KEY, as created by `bun jwt keygen`)
+ */
+export function getJWTPrivateKey(): JWK | null {
+  const value = process.env.API_JWT_PRIVATE_KEY
+  if (!value) {
+    return null
+  }
+
+  try {
+    return JSON.parse(value) as JWK
+  } catch {
+    throw new Error("API_JWT_PRIVATE_KEY must be a JSON Web Key")
+  }
+}
+
 /**
  * Duration parsing utilities
  */
@@ -12,6 +12,7 @@ const program = new Command()
 interface GlobalOptions {
   token?: string
   auth?: boolean
+  once?: boolean
   local?: boolean
   remote?: boolean
   version?: boolean
@@ -40,7 +41,8 @@ async function generateTokenForScope(scope: string, options: GlobalOptions): Pro
       {
         sub: scope,
         description: `Temporary token for try.ts (${scope})`,
-        expiresIn: "1h"
+        expiresIn: "1h",
+        once: options.once
       },
       secret,
       options.dryRun
@@ -247,6 +249,7 @@ program.name("try").description("Interactive API endpoint tester for dave-io-nux
 program
   .option("-t, --token <token>", "JWT token for authentication")
   .option("-a, --auth", "Auto-generate temporary token with required scopes")
+  .option("--once", "Make --auth tokens single-use, so each one only works for the request it was made for")
   .option("--local", "Use local development server (http://localhost:3000)")
   .option("--remote", "Use remote server (https://dave.io) [default]")
   .option("-d, --dry-run", "Show what would be done without making actual requests")
@@ -25,6 +25,11 @@ export default defineNuxtConfig({
   runtimeConfig: {
     // Server-side environment variables
     apiJwtSecret: process.env.API_JWT_SECRET || "dev-secret-change-in-production",
+    apiJwtPreviousSecret: process.env.API_JWT_PREVIOUS_SECRET || "", // Still verifies HS256 tokens during a rotation
+    apiJwtPrivateKey: process.env.API_JWT_PRIVATE_KEY || "", // Signs access tokens minted by /api/auth/token
+    apiJwtIssuer: process.env.API_JWT_ISSUER || "",
+    apiJwtAudience: process.env.API_JWT_AUDIENCE || "", // Comma-separated
+    apiRevocationFailClosed: process.env.API_REVOCATION_FAIL_CLOSED ?? "admin,ai", // Comma-separated prefixes
     cloudflareApiToken: process.env.CLOUDFLARE_API_TOKEN || "",
     public: {
       // Client-side environment variables
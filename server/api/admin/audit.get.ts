@@ -0,0 +1,63 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { queryAuthEvents } from "~/server/utils/audit-log"
+import { requireAdminAuth } from "~/server/utils/auth-helpers"
+import { getCloudflareEnv, getD1Database } from "~/server/utils/cloudflare"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { AuthEventListSchema, AuthEventQuerySchema } from "~/server/utils/schemas"
+
+// Page through recorded authorization decisions, newest first, filtered by subject, token and time
+export default defineEventHandler(async (event) => {
+  try {
+    const auth = await requireAdminAuth(event)
+
+    const parsed = AuthEventQuerySchema.safeParse(getQuery(event))
+    if (!parsed.success) {
+      throw createApiError(400, "Invalid audit query", parsed.error.format())
+    }
+
+    const { sub, jti, from, to, page, per_page } = parsed.data
+    const { events, total } = await queryAuthEvents(getD1Database(getCloudflareEnv(event)), {
+      sub,
+      jti,
+      // Stored timestamps are UTC ISO strings, so normalise offsets before comparing
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+      page,
+      perPage: per_page
+    })
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "admin/audit", "GET", 200, {
+      user: auth.payload?.sub || "unknown",
+      events: events.length,
+      total
+    })
+
+    return createTypedApiResponse({
+      result: { events },
+      message: "Audit events retrieved successfully",
+      error: null,
+      meta: { total, page, per_page, total_pages: Math.max(1, Math.ceil(total / per_page)) },
+      resultSchema: AuthEventListSchema
+    })
+  } catch (error: unknown) {
+    console.error("Audit log error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "admin/audit", "GET", statusCode, {
+      user: "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to read audit log")
+  }
+})
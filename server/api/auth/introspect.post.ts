@@ -0,0 +1,53 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireAdminAuth } from "~/server/utils/auth-helpers"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { introspectCredential, verifyCredential } from "~/server/utils/token-introspection"
+
+// RFC 7662 token introspection: accepts a form or JSON body with a token (JWT or API key)
+export default defineEventHandler(async (event) => {
+  try {
+    const auth = await requireAdminAuth(event)
+
+    let body: { token?: unknown }
+    try {
+      body = (await readBody(event)) || {}
+    } catch {
+      throw createApiError(400, "Invalid request body")
+    }
+
+    if (typeof body.token !== "string" || !body.token) {
+      throw createApiError(400, 'Field "token" is required')
+    }
+
+    const introspection = await introspectCredential(event, await verifyCredential(event, body.token))
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "auth/introspect", "POST", 200, {
+      user: auth.payload?.sub || "unknown",
+      subject: introspection.sub || "unknown",
+      active: introspection.active
+    })
+
+    // RFC 7662 responses are the bare introspection object, never cached
+    setHeader(event, "cache-control", "no-store")
+    return introspection
+  } catch (error: unknown) {
+    console.error("Token introspection error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "auth/introspect", "POST", statusCode, {
+      user: "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Token introspection failed")
+  }
+})
@@ -0,0 +1,47 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireCredentialAuth } from "~/server/utils/auth-helpers"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { TokenIntrospectionSchema } from "~/server/utils/schemas"
+import { introspectCredential } from "~/server/utils/token-introspection"
+
+// Describe the caller's own token or API key, so clients can check what it can do before using it
+export default defineEventHandler(async (event) => {
+  try {
+    // Any valid credential may describe itself, whatever its permissions, but revocation, binding,
+    // single use and quota apply as they do everywhere else
+    const auth = await requireCredentialAuth(event, "me")
+    const introspection = await introspectCredential(event, auth)
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "auth/me", "GET", 200, {
+      user: introspection.sub || "unknown",
+      scopes: introspection.effective_scopes?.length ?? 0
+    })
+
+    return createTypedApiResponse({
+      result: introspection,
+      message: "Token details retrieved successfully",
+      error: null,
+      resultSchema: TokenIntrospectionSchema
+    })
+  } catch (error: unknown) {
+    console.error("Token self-description error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "auth/me", "GET", statusCode, {
+      user: "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to describe token")
+  }
+})
@@ -0,0 +1,94 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { auditAuthDecision } from "~/server/utils/audit-log"
+import { signAccessToken } from "~/server/utils/auth"
+import { getCloudflareEnv, getD1Database } from "~/server/utils/cloudflare"
+import { ACCESS_TOKEN_TTL_SECONDS, revokeAccessTokens, rotateRefreshToken } from "~/server/utils/refresh-tokens"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { AuthTokenRequestSchema, AuthTokenResponseSchema } from "~/server/utils/schemas"
+
+// Exchange a refresh token for a 15-minute access token and a replacement refresh token
+export default defineEventHandler(async (event) => {
+  try {
+    let body: unknown
+    try {
+      body = await readBody(event)
+    } catch {
+      throw createApiError(400, "Invalid request body")
+    }
+
+    const parsed = AuthTokenRequestSchema.safeParse(body || {})
+    if (!parsed.success) {
+      throw createApiError(400, 'Field "refresh_token" is required', parsed.error.format())
+    }
+
+    const env = getCloudflareEnv(event)
+    let accessToken = ""
+    const exchange = await rotateRefreshToken(
+      getD1Database(env),
+      parsed.data.refresh_token,
+      Date.now(),
+      env.KV,
+      async (record, accessJti) => {
+        accessToken = await signAccessToken(event, record, accessJti, ACCESS_TOKEN_TTL_SECONDS)
+      }
+    )
+
+    if (!exchange.success) {
+      auditAuthDecision(
+        event,
+        "auth:token",
+        { success: false, error: exchange.error, statusCode: 401 },
+        { sub: exchange.sub }
+      )
+      if (exchange.reused) {
+        console.warn(`[AUTH] Refresh token reuse in family ${exchange.familyId}, family revoked`)
+        if (env.KV && exchange.revokedAccessJtis?.length) {
+          await revokeAccessTokens(env.KV, exchange.revokedAccessJtis)
+        }
+      }
+      throw createApiError(401, exchange.error)
+    }
+
+    auditAuthDecision(event, "auth:token", { success: true }, { sub: exchange.record.sub, jti: exchange.accessJti })
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "auth/token", "POST", 200, {
+      user: exchange.record.sub,
+      family: exchange.record.familyId
+    })
+
+    // Tokens must never be cached
+    setHeader(event, "cache-control", "no-store")
+    return createTypedApiResponse({
+      result: {
+        access_token: accessToken,
+        token_type: "Bearer" as const,
+        expires_in: ACCESS_TOKEN_TTL_SECONDS,
+        refresh_token: exchange.token,
+        refresh_token_expires_at: exchange.record.expiresAt
+      },
+      message: "Access token issued successfully",
+      error: null,
+      resultSchema: AuthTokenResponseSchema
+    })
+  } catch (error: unknown) {
+    console.error("Refresh token exchange error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "auth/token", "POST", statusCode, {
+      user: "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to issue access token")
+  }
+})
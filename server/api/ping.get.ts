@@ -1,7 +1,13 @@
 import { getHeaders } from "h3"
 import { z } from "zod"
 import { recordAPIMetrics } from "~/server/middleware/metrics"
-import { extractToken, getUserFromPayload, verifyJWT } from "~/server/utils/auth"
+import {
+  extractToken,
+  getJWTClaimExpectations,
+  getJWTPublicKeyResolver,
+  getUserFromPayload,
+  verifyJWT
+} from "~/server/utils/auth"
 import { getCloudflareRequestInfo } from "~/server/utils/cloudflare"
 import { logRequest } from "~/server/utils/response"
 import { createTypedApiResponse } from "~/server/utils/response-types"
@@ -50,7 +56,12 @@ export default defineEventHandler(async (event) => {
     const secret = process.env.API_JWT_SECRET
     if (secret) {
       try {
-        const verification = await verifyJWT(token, secret)
+        const verification = await verifyJWT(
+          token,
+          secret,
+          getJWTPublicKeyResolver(event),
+          getJWTClaimExpectations(event)
+        )
         if (verification.success && verification.payload) {
           const { payload } = verification
           // User variable needed for JWT validation context
@@ -0,0 +1,67 @@
+import { z } from "zod"
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireAPIAuth } from "~/server/utils/auth-helpers"
+import { getCloudflareEnv, getKVNamespace } from "~/server/utils/cloudflare"
+import { deleteRedirect, getRedirect } from "~/server/utils/redirects"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { getValidatedSlug } from "~/server/utils/validation"
+
+// Define the result schema for the redirect delete endpoint
+const RedirectDeleteResultSchema = z.object({
+  slug: z.string(),
+  deleted: z.boolean()
+})
+
+export default defineEventHandler(async (event) => {
+  let slug: string | undefined
+
+  try {
+    // Check authorization for redirect management using helper
+    const auth = await requireAPIAuth(event, "redirects")
+
+    slug = getValidatedSlug(event)
+
+    const env = getCloudflareEnv(event)
+    const kv = getKVNamespace(env)
+
+    const existing = await getRedirect(kv, slug)
+    if (!existing) {
+      throw createApiError(404, `Redirect not found for slug: ${slug}`)
+    }
+
+    await deleteRedirect(kv, slug)
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "redirects/{slug}", "DELETE", 200, {
+      user: auth.payload?.sub || "unknown",
+      slug,
+      target: existing.url
+    })
+
+    return createTypedApiResponse({
+      result: { slug, deleted: true },
+      message: "Redirect deleted successfully",
+      error: null,
+      resultSchema: RedirectDeleteResultSchema
+    })
+  } catch (error: unknown) {
+    console.error("Redirect delete error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "redirects/{slug}", "DELETE", statusCode, {
+      slug: slug || "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to delete redirect")
+  }
+})
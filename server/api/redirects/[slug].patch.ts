@@ -0,0 +1,84 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireAPIAuth } from "~/server/utils/auth-helpers"
+import { getCloudflareEnv, getKVNamespace } from "~/server/utils/cloudflare"
+import { getRedirect, putRedirect, validateRedirectSchedule } from "~/server/utils/redirects"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { UpdateRedirectSchema, UrlRedirectSchema } from "~/server/utils/schemas"
+import { getValidatedSlug } from "~/server/utils/validation"
+
+export default defineEventHandler(async (event) => {
+  let slug: string | undefined
+
+  try {
+    // Check authorization for redirect management using helper
+    const auth = await requireAPIAuth(event, "redirects")
+
+    slug = getValidatedSlug(event)
+
+    const env = getCloudflareEnv(event)
+    const kv = getKVNamespace(env)
+
+    const body = await readBody(event)
+    const parsed = UpdateRedirectSchema.safeParse(body)
+    if (!parsed.success) {
+      throw createApiError(400, "Invalid redirect data", parsed.error.format())
+    }
+
+    const existing = await getRedirect(kv, slug)
+    if (!existing) {
+      throw createApiError(404, `Redirect not found for slug: ${slug}`)
+    }
+
+    // Merge supplied fields over the existing redirect (null clears a limit)
+    const { not_before, expires_at, max_clicks } = parsed.data
+    const input = {
+      url: parsed.data.url ?? existing.url,
+      title: parsed.data.title ?? existing.title,
+      description: parsed.data.description ?? existing.description,
+      forward_query: parsed.data.forward_query ?? existing.forward_query,
+      forward_path: parsed.data.forward_path ?? existing.forward_path,
+      status_code: parsed.data.status_code ?? existing.status_code,
+      rules: parsed.data.rules ?? existing.rules,
+      variants: parsed.data.variants ?? existing.variants,
+      not_before: not_before === undefined ? existing.not_before : (not_before ?? undefined),
+      expires_at: expires_at === undefined ? existing.expires_at : (expires_at ?? undefined),
+      max_clicks: max_clicks === undefined ? existing.max_clicks : (max_clicks ?? undefined)
+    }
+    validateRedirectSchedule(input)
+
+    const redirect = await putRedirect(kv, slug, input, existing)
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "redirects/{slug}", "PATCH", 200, {
+      user: auth.payload?.sub || "unknown",
+      slug,
+      fields: Object.keys(parsed.data).join(",") || "none"
+    })
+
+    return createTypedApiResponse({
+      result: redirect,
+      message: "Redirect updated successfully",
+      error: null,
+      resultSchema: UrlRedirectSchema
+    })
+  } catch (error: unknown) {
+    console.error("Redirect update error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "redirects/{slug}", "PATCH", statusCode, {
+      slug: slug || "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to update redirect")
+  }
+})
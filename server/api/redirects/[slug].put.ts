@@ -0,0 +1,69 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireAPIAuth } from "~/server/utils/auth-helpers"
+import { getCloudflareEnv, getKVNamespace } from "~/server/utils/cloudflare"
+import { getRedirect, putRedirect, validateRedirectSchedule } from "~/server/utils/redirects"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { CreateRedirectSchema, UrlRedirectSchema } from "~/server/utils/schemas"
+import { getValidatedSlug } from "~/server/utils/validation"
+
+export default defineEventHandler(async (event) => {
+  let slug: string | undefined
+
+  try {
+    // Check authorization for redirect management using helper
+    const auth = await requireAPIAuth(event, "redirects")
+
+    slug = getValidatedSlug(event)
+
+    const env = getCloudflareEnv(event)
+    const kv = getKVNamespace(env)
+
+    // Validate request body, taking the slug from the path
+    const body = await readBody(event)
+    const parsed = CreateRedirectSchema.safeParse({ ...body, slug })
+    if (!parsed.success) {
+      throw createApiError(400, "Invalid redirect data", parsed.error.format())
+    }
+    validateRedirectSchedule(parsed.data)
+
+    // PUT replaces the whole redirect, creating it if it does not exist
+    const existing = await getRedirect(kv, slug)
+    const redirect = await putRedirect(kv, slug, parsed.data, existing)
+    const statusCode = existing ? 200 : 201
+
+    recordAPIMetrics(event, statusCode)
+    setResponseStatus(event, statusCode)
+
+    logRequest(event, "redirects/{slug}", "PUT", statusCode, {
+      user: auth.payload?.sub || "unknown",
+      slug,
+      target: redirect.url,
+      created: !existing
+    })
+
+    return createTypedApiResponse({
+      result: redirect,
+      message: existing ? "Redirect replaced successfully" : "Redirect created successfully",
+      error: null,
+      resultSchema: UrlRedirectSchema
+    })
+  } catch (error: unknown) {
+    console.error("Redirect replace error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "redirects/{slug}", "PUT", statusCode, {
+      slug: slug || "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to replace redirect")
+  }
+})
@@ -0,0 +1,86 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireAPIAuth } from "~/server/utils/auth-helpers"
+import { getCloudflareEnv, getKVNamespace } from "~/server/utils/cloudflare"
+import { encodeQR, renderQRCodePNG, renderQRCodeSVG } from "~/server/utils/qr"
+import type { QRErrorCorrection } from "~/server/utils/qr"
+import { getQRCacheKey, getRedirect } from "~/server/utils/redirects"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { getValidatedSlug, validateNumericParam } from "~/server/utils/validation"
+
+// Cached renderings only change when the redirect does, so keep them for a month
+const QR_CACHE_TTL = 30 * 86400
+
+export default defineEventHandler(async (event) => {
+  let slug: string | undefined
+
+  try {
+    // Check authorization for redirect management using helper
+    const auth = await requireAPIAuth(event, "redirects")
+
+    slug = getValidatedSlug(event)
+
+    const env = getCloudflareEnv(event)
+    const kv = getKVNamespace(env)
+
+    // Parse rendering options
+    const query = getQuery(event)
+    const format = ((query.format as string) || "svg").toLowerCase()
+    if (format !== "svg" && format !== "png") {
+      throw createApiError(400, "format must be one of: svg, png")
+    }
+
+    const ecc = ((query.ecc as string) || "M").toUpperCase() as QRErrorCorrection
+    if (!["L", "M", "Q", "H"].includes(ecc)) {
+      throw createApiError(400, "ecc must be one of: L, M, Q, H")
+    }
+
+    const size = validateNumericParam(query.size, "size", { min: 64, max: 2048, integer: true }) ?? 512
+    const margin = validateNumericParam(query.margin, "margin", { min: 0, max: 16, integer: true }) ?? 4
+
+    if (!(await getRedirect(kv, slug))) {
+      throw createApiError(404, `Redirect not found for slug: ${slug}`)
+    }
+
+    const cacheKey = getQRCacheKey(slug, { format, size, margin, ecc })
+    const cached = format === "png" ? await kv.get(cacheKey, "arrayBuffer") : await kv.get(cacheKey)
+
+    let output: string | Uint8Array
+    if (cached) {
+      output = typeof cached === "string" ? cached : new Uint8Array(cached)
+    } else {
+      const qr = encodeQR(`https://dave.io/go/${slug}`, ecc)
+      output = format === "png" ? await renderQRCodePNG(qr, size, margin) : renderQRCodeSVG(qr, size, margin)
+      await kv.put(cacheKey, output, { expirationTtl: QR_CACHE_TTL })
+    }
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "redirects/{slug}/qr", "GET", 200, {
+      user: auth.payload?.sub || "unknown",
+      slug,
+      format,
+      size,
+      cached: cached ? "hit" : "miss"
+    })
+
+    setHeader(event, "content-type", format === "png" ? "image/png" : "image/svg+xml")
+    return output
+  } catch (error: unknown) {
+    console.error("Redirect QR code error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "redirects/{slug}/qr", "GET", statusCode, {
+      slug: slug || "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to generate QR code")
+  }
+})
@@ -0,0 +1,122 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireAPIAuth } from "~/server/utils/auth-helpers"
+import { getCloudflareEnv, getKVNamespace } from "~/server/utils/cloudflare"
+import {
+  formatRedirectStatsAsCSV,
+  formatRedirectStatsAsPrometheus,
+  formatRedirectStatsAsYAML,
+  handleResponseFormat
+} from "~/server/utils/formatters"
+import { getRedirectClickBuckets, REDIRECT_BUCKET_RETENTION } from "~/server/utils/kv-metrics"
+import type { RedirectBucketGranularity } from "~/server/utils/kv-metrics"
+import { getRedirect } from "~/server/utils/redirects"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { RedirectStatsSchema } from "~/server/utils/schemas"
+import type { RedirectStats } from "~/server/utils/schemas"
+import { getValidatedSlug } from "~/server/utils/validation"
+
+/**
+ * Parse an ISO date query parameter
+ */
+function parseDateParam(value: unknown, paramName: string): Date | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined
+  }
+
+  const date = new Date(String(value))
+  if (Number.isNaN(date.getTime())) {
+    throw createApiError(400, `${paramName} must be a valid ISO 8601 date`)
+  }
+
+  return date
+}
+
+export default defineEventHandler(async (event) => {
+  let slug: string | undefined
+
+  try {
+    // Check authorization for redirect analytics using helper
+    const auth = await requireAPIAuth(event, "redirects")
+
+    slug = getValidatedSlug(event)
+
+    const env = getCloudflareEnv(event)
+    const kv = getKVNamespace(env)
+
+    // Parse range and granularity (defaults: last 24 hours hourly, last 30 days daily)
+    const query = getQuery(event)
+    const granularity = ((query.granularity as string) || "hourly").toLowerCase() as RedirectBucketGranularity
+    if (!(granularity in REDIRECT_BUCKET_RETENTION)) {
+      throw createApiError(400, "granularity must be one of: hourly, daily")
+    }
+
+    const to = parseDateParam(query.to, "to") || new Date()
+    const defaultSpan = granularity === "hourly" ? 86400 * 1000 : 30 * 86400 * 1000
+    const from = parseDateParam(query.from, "from") || new Date(to.getTime() - defaultSpan)
+
+    if (from > to) {
+      throw createApiError(400, "from must be before to")
+    }
+
+    const retentionMs = REDIRECT_BUCKET_RETENTION[granularity] * 1000
+    if (to.getTime() - from.getTime() > retentionMs) {
+      throw createApiError(400, `Range too large for ${granularity} stats (max ${retentionMs / 86400000} days)`)
+    }
+
+    if (!(await getRedirect(kv, slug))) {
+      throw createApiError(404, `Redirect not found for slug: ${slug}`)
+    }
+
+    const buckets = await getRedirectClickBuckets(kv, slug, granularity, from, to)
+
+    const stats: RedirectStats = {
+      slug,
+      granularity,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      total_clicks: buckets.reduce((sum, bucket) => sum + bucket.clicks, 0),
+      buckets
+    }
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "redirects/{slug}/stats", "GET", 200, {
+      user: auth.payload?.sub || "unknown",
+      slug,
+      granularity,
+      buckets: buckets.length,
+      format: (query.format as string) || "json"
+    })
+
+    return handleResponseFormat(event, stats, {
+      json: () =>
+        createTypedApiResponse({
+          result: stats,
+          message: "Redirect stats retrieved successfully",
+          error: null,
+          resultSchema: RedirectStatsSchema
+        }),
+      yaml: () => formatRedirectStatsAsYAML(stats),
+      csv: () => formatRedirectStatsAsCSV(stats),
+      prometheus: () => formatRedirectStatsAsPrometheus(stats)
+    })
+  } catch (error: unknown) {
+    console.error("Redirect stats error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "redirects/{slug}/stats", "GET", statusCode, {
+      slug: slug || "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to retrieve redirect stats")
+  }
+})
@@ -0,0 +1,57 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireAPIAuth } from "~/server/utils/auth-helpers"
+import { getCloudflareEnv, getKVNamespace } from "~/server/utils/cloudflare"
+import { getRedirectHealthReport } from "~/server/utils/redirect-health"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { RedirectHealthReportSchema } from "~/server/utils/schemas"
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Check authorization for redirect management using helper
+    const auth = await requireAPIAuth(event, "redirects")
+
+    const env = getCloudflareEnv(event)
+    const kv = getKVNamespace(env)
+
+    const report = await getRedirectHealthReport(kv)
+
+    // ?failing=1 narrows the list to destinations that failed their last check
+    const failingOnly = ["1", "true"].includes(String(getQuery(event).failing))
+    if (failingOnly) {
+      report.redirects = report.redirects.filter((health) => !health.ok)
+    }
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "redirects/health", "GET", 200, {
+      user: auth.payload?.sub || "unknown",
+      total: report.total,
+      failing: report.failing
+    })
+
+    return createTypedApiResponse({
+      result: report,
+      message: `${report.healthy} of ${report.total} redirect destinations healthy`,
+      error: null,
+      resultSchema: RedirectHealthReportSchema
+    })
+  } catch (error: unknown) {
+    console.error("Redirect health report error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "redirects/health", "GET", statusCode, {
+      user: "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to get redirect health")
+  }
+})
@@ -0,0 +1,72 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireAPIAuth } from "~/server/utils/auth-helpers"
+import { getCloudflareEnv, getKVNamespace } from "~/server/utils/cloudflare"
+import { getRedirect, listRedirectSlugs } from "~/server/utils/redirects"
+import type { RedirectRecord } from "~/server/utils/redirects"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { RedirectListSchema } from "~/server/utils/schemas"
+import { validateNumericParam } from "~/server/utils/validation"
+
+export default defineEventHandler(async (event) => {
+  try {
+    // Check authorization for redirect management using helper
+    const auth = await requireAPIAuth(event, "redirects")
+
+    const env = getCloudflareEnv(event)
+    const kv = getKVNamespace(env)
+
+    // Parse pagination parameters
+    const query = getQuery(event)
+    const page = validateNumericParam(query.page, "page", { min: 1, integer: true }) ?? 1
+    const perPage = validateNumericParam(query.per_page, "per_page", { min: 1, max: 100, integer: true }) ?? 25
+
+    const slugs = await listRedirectSlugs(kv)
+    const total = slugs.length
+    const totalPages = Math.max(1, Math.ceil(total / perPage))
+    const pageSlugs = slugs.slice((page - 1) * perPage, page * perPage)
+
+    const redirects = (await Promise.all(pageSlugs.map((slug) => getRedirect(kv, slug)))).filter(
+      (redirect): redirect is RedirectRecord => redirect !== null
+    )
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "redirects", "GET", 200, {
+      user: auth.payload?.sub || "unknown",
+      page,
+      perPage,
+      total
+    })
+
+    return createTypedApiResponse({
+      result: { redirects },
+      message: "Redirects retrieved successfully",
+      error: null,
+      meta: {
+        total,
+        page,
+        per_page: perPage,
+        total_pages: totalPages
+      },
+      resultSchema: RedirectListSchema
+    })
+  } catch (error: unknown) {
+    console.error("Redirect list error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "redirects", "GET", statusCode, {
+      user: "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to list redirects")
+  }
+})
@@ -4,6 +4,7 @@ import { getCloudflareEnv } from "~/server/utils/cloudflare"
 import { createApiError, isApiError } from "~/server/utils/response"
 import { createTypedApiResponse } from "~/server/utils/response-types"
 import { TokenUsageSchema } from "~/server/utils/schemas"
+import { getTokenUsage } from "~/server/utils/token-usage"
 
 interface TokenUsageData {
   token_id: string
@@ -23,7 +24,7 @@ export default defineEventHandler(async (event) => {
     const authFunc = await authorizeEndpoint("api", "token")
     const auth = await authFunc(event)
     if (!auth.success) {
-      throw createApiError(401, auth.error || "Unauthorized")
+      throw createApiError(auth.statusCode || 401, auth.error || "Unauthorized")
     }
 
     _authToken = auth.payload?.sub || null
@@ -46,12 +47,11 @@ export default defineEventHandler(async (event) => {
       throw createApiError(400, "Invalid UUID format")
     }
 
-    // GET /api/token/{uuid} - Get token usage using simple KV keys
-    const [usageCountStr, maxRequestsStr, createdAtStr, lastUsedStr] = await Promise.all([
-      env.KV.get(`token:${uuid}:usage-count`),
+    // GET /api/token/{uuid} - Get token usage (counters live in D1)
+    const [maxRequestsStr, createdAtStr, tokenUsage] = await Promise.all([
       env.KV.get(`token:${uuid}:max-requests`),
       env.KV.get(`token:${uuid}:created-at`),
-      env.KV.get(`token:${uuid}:last-used`)
+      env.D1 ? getTokenUsage(env.D1, uuid) : null
     ])
 
     // Check if token exists
@@ -61,10 +61,10 @@ export default defineEventHandler(async (event) => {
 
     const usage: TokenUsageData = {
       token_id: uuid,
-      usage_count: usageCountStr ? Number.parseInt(usageCountStr, 10) : 0,
+      usage_count: tokenUsage?.requestCount ?? 0,
       max_requests: maxRequestsStr ? Number.parseInt(maxRequestsStr, 10) : 0,
       created_at: createdAtStr || new Date().toISOString(),
-      last_used: lastUsedStr || ""
+      last_used: tokenUsage?.lastUsed || ""
     }
 
     const validatedUsage = TokenUsageSchema.parse(usage)
@@ -4,6 +4,7 @@ import { authorizeEndpoint } from "~/server/utils/auth"
 import { getCloudflareEnv } from "~/server/utils/cloudflare"
 import { createApiError, isApiError } from "~/server/utils/response"
 import { createTypedApiResponse } from "~/server/utils/response-types"
+import { cacheTokenRevocation } from "~/server/utils/revocation"
 
 interface RevokeRequest {
   revoked: boolean
@@ -35,7 +36,7 @@ export default defineEventHandler(async (event) => {
     const authFunc = await authorizeEndpoint("api", "token")
     const auth = await authFunc(event)
     if (!auth.success) {
-      throw createApiError(401, auth.error || "Unauthorized")
+      throw createApiError(auth.statusCode || 401, auth.error || "Unauthorized")
     }
 
     _authToken = auth.payload?.sub || null
@@ -91,6 +92,7 @@ export default defineEventHandler(async (event) => {
           env.KV.delete(`token:${uuid}:revoke-reason`)
         ])
       }
+      cacheTokenRevocation(uuid, body.revoked)
     } catch (error) {
       console.error("Failed to update token revocation in KV:", error)
       throw createApiError(500, "Failed to update token revocation status")
@@ -4,6 +4,7 @@ import { requireAPIAuth } from "~/server/utils/auth-helpers"
 import { getCloudflareEnv } from "~/server/utils/cloudflare"
 import { createApiError, isApiError, logRequest } from "~/server/utils/response"
 import { createTypedApiResponse } from "~/server/utils/response-types"
+import { getTokenUsage } from "~/server/utils/token-usage"
 import { getValidatedUUID } from "~/server/utils/validation"
 
 interface TokenUsage {
@@ -25,20 +26,19 @@ const TokenUsageResultSchema = z.object({
   createdAt: z.string()
 })
 
-// Get token usage from KV storage using simple keys
-async function getTokenUsageFromKV(uuid: string, kv?: KVNamespace): Promise<TokenUsage> {
+// Get token usage from KV storage using simple keys, with request counters from D1
+async function getTokenUsageFromKV(uuid: string, kv?: KVNamespace, db?: D1Database): Promise<TokenUsage> {
   if (!kv) {
     throw createApiError(503, "Token storage service unavailable")
   }
 
   try {
     // Get all token data using simple KV keys
-    const [maxRequestsStr, createdAtStr, usageCountStr, lastUsedStr, revokedStr] = await Promise.all([
+    const [maxRequestsStr, createdAtStr, revokedStr, tokenUsage] = await Promise.all([
       kv.get(`token:${uuid}:max-requests`),
       kv.get(`token:${uuid}:created-at`),
-      kv.get(`token:${uuid}:usage-count`),
-      kv.get(`token:${uuid}:last-used`),
-      kv.get(`token:${uuid}:revoked`)
+      kv.get(`token:${uuid}:revoked`),
+      db ? getTokenUsage(db, uuid) : null
     ])
 
     // Check if token exists (if any of the core fields exist)
@@ -47,9 +47,9 @@ async function getTokenUsageFromKV(uuid: string, kv?: KVNamespace): Promise<Toke
     }
 
     const maxRequests = maxRequestsStr ? Number.parseInt(maxRequestsStr, 10) : undefined
-    const requestCount = usageCountStr ? Number.parseInt(usageCountStr, 10) : 0
+    const requestCount = tokenUsage?.requestCount ?? 0
     const isRevoked = revokedStr === "true"
-    const lastUsed = lastUsedStr || null
+    const lastUsed = tokenUsage?.lastUsed || null
     const createdAt = createdAtStr || new Date().toISOString()
 
     return {
@@ -89,7 +89,7 @@ export default defineEventHandler(async (event) => {
     }
 
     // Get token usage from KV storage
-    const usage = await getTokenUsageFromKV(uuid, env.KV)
+    const usage = await getTokenUsageFromKV(uuid, env.KV, env.D1)
 
     // Record successful token usage request
     recordAPIMetrics(event, 200)
@@ -0,0 +1,89 @@
+import { recordAPIErrorMetrics, recordAPIMetrics } from "~/server/middleware/metrics"
+import { requireAdminAuth, requireAPIAuth } from "~/server/utils/auth-helpers"
+import { getCloudflareEnv, getD1Database, getKVNamespace } from "~/server/utils/cloudflare"
+import { revokeRefreshTokensIssuedBefore } from "~/server/utils/refresh-tokens"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+import { createTypedApiResponse } from "~/server/utils/response-types"
+import { revokeTokensIssuedBefore } from "~/server/utils/revocation"
+import { TokenBulkRevokeRequestSchema, TokenBulkRevokeResultSchema } from "~/server/utils/schemas"
+
+// Revoke every token for a subject, every token issued before a time, or a subject's tokens issued before a time
+// Refresh token families and OAuth clients for the subject are revoked too, so they can't mint replacements
+export default defineEventHandler(async (event) => {
+  try {
+    let body: unknown
+    try {
+      body = await readBody(event)
+    } catch {
+      throw createApiError(400, "Invalid request body")
+    }
+
+    const parsed = TokenBulkRevokeRequestSchema.safeParse(body || {})
+    if (!parsed.success) {
+      throw createApiError(400, "Invalid revocation request", parsed.error.format())
+    }
+
+    const { sub, issued_before } = parsed.data
+
+    // Revoking a subject needs api:token; revoking everyone's tokens logs every caller out, so it needs admin
+    const auth = sub ? await requireAPIAuth(event, "token") : await requireAdminAuth(event)
+    const now = Math.floor(Date.now() / 1000)
+
+    // Without a time, everything the subject holds now is revoked; tokens minted afterwards still work
+    const requested = issued_before ? Math.floor(new Date(issued_before).getTime() / 1000) : now + 1
+    if (requested > now + 1) {
+      throw createApiError(400, "issued_before can't be in the future")
+    }
+
+    const env = getCloudflareEnv(event)
+    const cutoff = await revokeTokensIssuedBefore(getKVNamespace(env), requested, sub)
+    const refreshTokensRevoked = await revokeRefreshTokensIssuedBefore(getD1Database(env), cutoff, sub)
+    const issuedBefore = new Date(cutoff * 1000).toISOString()
+
+    console.log("Bulk token revocation completed:", {
+      sub: sub ?? "*",
+      issuedBefore,
+      refreshTokensRevoked,
+      requestedBy: auth.payload?.sub
+    })
+
+    recordAPIMetrics(event, 200)
+
+    logRequest(event, "token/revoke", "POST", 200, {
+      user: auth.payload?.sub || "unknown",
+      sub: sub ?? "*",
+      issuedBefore
+    })
+
+    return createTypedApiResponse({
+      result: {
+        ...(sub ? { sub } : {}),
+        issued_before: issuedBefore,
+        refresh_tokens_revoked: refreshTokensRevoked,
+        message: sub
+          ? `Tokens for ${sub} issued before ${issuedBefore} are revoked`
+          : `All tokens issued before ${issuedBefore} are revoked`
+      },
+      message: "Tokens revoked successfully",
+      error: null,
+      resultSchema: TokenBulkRevokeResultSchema
+    })
+  } catch (error: unknown) {
+    console.error("Bulk token revocation error:", error)
+
+    recordAPIErrorMetrics(event, error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "token/revoke", "POST", statusCode, {
+      user: "unknown",
+      success: false
+    })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Bulk token revocation failed")
+  }
+})
@@ -0,0 +1,43 @@
+import { getCloudflareEnv } from "~/server/utils/cloudflare"
+import { checkRateLimit, getRateLimitIdentity, getRateLimitRule, getRequestPermission } from "~/server/utils/rate-limit"
+import { createApiError } from "~/server/utils/response"
+
+// Rate limit API and OAuth routes per token (or per IP for anonymous callers) and permission prefix
+export default defineEventHandler(async (event) => {
+  const { url } = event.node.req
+  if (!(url?.startsWith("/api/") || url?.startsWith("/oauth/")) || getMethod(event) === "OPTIONS") {
+    return
+  }
+
+  if (["1", "true"].includes(process.env.API_DEV_DISABLE_RATE_LIMITS || "")) {
+    return
+  }
+
+  const permission = getRequestPermission(url)
+  const env = getCloudflareEnv(event)
+  if (!permission || !env?.D1) {
+    return // Skip rate limiting if D1 is not available
+  }
+
+  let result: Awaited<ReturnType<typeof checkRateLimit>>
+  let pattern: string
+  try {
+    const limit = await getRateLimitRule(env.KV, permission)
+    if (!limit) {
+      return
+    }
+
+    pattern = limit.pattern
+    const identity = await getRateLimitIdentity(event)
+    result = await checkRateLimit(env.D1, `${identity}|${pattern}`, limit.rule)
+  } catch (error) {
+    console.error("Rate limit check failed:", error)
+    return // Never let a counter outage take the API down
+  }
+
+  if (!result.allowed) {
+    console.warn(`[RATE LIMIT] ${url} | ${pattern} | ${result.count}/${result.limit}`)
+    setHeader(event, "Retry-After", result.retryAfter)
+    throw createApiError(429, `Rate limit exceeded (${result.limit} requests for ${pattern})`)
+  }
+})
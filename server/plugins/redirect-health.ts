@@ -0,0 +1,24 @@
+import type { CloudflareEnv } from "~/server/utils/cloudflare"
+import { getKVNamespace } from "~/server/utils/cloudflare"
+import { runRedirectHealthChecks } from "~/server/utils/redirect-health"
+
+// Check redirect destinations whenever the Worker's cron trigger fires (see triggers in wrangler.jsonc)
+export default defineNitroPlugin((nitroApp) => {
+  nitroApp.hooks.hook("cloudflare:scheduled", ({ env, context }) => {
+    const check = async () => {
+      try {
+        const kv = getKVNamespace(env as CloudflareEnv)
+        const results = await runRedirectHealthChecks(kv)
+        const failing = results.filter((result) => !result.ok).map((result) => result.slug)
+        console.log(
+          `Redirect health check: ${results.length - failing.length}/${results.length} healthy`,
+          failing.length > 0 ? `(failing: ${failing.join(", ")})` : ""
+        )
+      } catch (error) {
+        console.error("Redirect health check failed:", error)
+      }
+    }
+
+    context.waitUntil(check())
+  })
+})
@@ -0,0 +1,31 @@
+import { getCloudflareEnv, getKVNamespace } from "~/server/utils/cloudflare"
+import { listPublicJWKs } from "~/server/utils/jwks"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+
+// Public keys for verifying asymmetrically signed tokens (RFC 7517 JWK Set)
+export default defineEventHandler(async (event) => {
+  try {
+    const env = getCloudflareEnv(event)
+    const kv = getKVNamespace(env)
+
+    const keys = await listPublicJWKs(kv)
+
+    logRequest(event, ".well-known/jwks.json", "GET", 200, { keys: keys.length })
+
+    setHeader(event, "content-type", "application/jwk-set+json")
+    setHeader(event, "cache-control", "public, max-age=300")
+    return { keys }
+  } catch (error: unknown) {
+    console.error("JWKS error:", error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, ".well-known/jwks.json", "GET", statusCode, { success: false })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to load signing keys")
+  }
+})
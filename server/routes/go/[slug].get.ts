@@ -1,17 +1,36 @@
-import { getHeader, sendRedirect } from "h3"
-import { getCloudflareEnv, getKVNamespace } from "~/server/utils/cloudflare"
-import { updateRedirectMetricsAsync } from "~/server/utils/kv-metrics"
+import type { H3Event } from "h3"
+import { getCookie, getHeader, getQuery, getRequestURL, sendRedirect, setCookie } from "h3"
+import { getJWTSecret } from "~/server/utils/auth"
+import { getCloudflareEnv, getCloudflareRequestInfo, getKVNamespace } from "~/server/utils/cloudflare"
+import { getRedirectPreviewContent, sendGoPage } from "~/server/utils/go-pages"
+import { classifyPlatform, isLinkUnfurlerUserAgent, updateRedirectMetricsAsync } from "~/server/utils/kv-metrics"
+import {
+  buildRedirectDestination,
+  getPreferredLanguage,
+  getRedirect,
+  getRedirectAvailability,
+  getVariantCookieName,
+  pickRedirectVariant,
+  resolveRedirectAlias,
+  selectRedirectTarget,
+  signVariantAssignment,
+  verifyVariantAssignment
+} from "~/server/utils/redirects"
+import type { RedirectRecord } from "~/server/utils/redirects"
 import { createApiError, isApiError, logRequest } from "~/server/utils/response"
 import { UrlRedirectSchema } from "~/server/utils/schemas"
 
-interface RedirectData {
-  slug: string
-  url: string
-  title?: string
-  description?: string
-  clicks: number
-  created_at: string
-  updated_at: string
+// Tell the visitor a link is gone, whether they followed it directly or through an alias
+function sendUnavailablePage(event: H3Event, slug: string, availability: "expired" | "exhausted") {
+  return sendGoPage(event, 410, {
+    title: "Link Expired",
+    heading: "Link Expired",
+    message:
+      availability === "expired"
+        ? `The link dave.io/go/${slug} has expired and is no longer available.`
+        : `The link dave.io/go/${slug} has reached its click limit and is no longer available.`,
+    tone: "error"
+  })
 }
 
 export default defineEventHandler(async (event) => {
@@ -19,32 +38,22 @@ export default defineEventHandler(async (event) => {
     const env = getCloudflareEnv(event)
     const kv = getKVNamespace(env)
 
-    const slug = getRouterParam(event, "slug")
+    const slugParam = getRouterParam(event, "slug")
 
-    if (!slug) {
+    if (!slugParam) {
       throw createApiError(400, "Slug parameter is required")
     }
 
-    // Get redirect URL and click count from simple KV keys
-    let redirectData: RedirectData | undefined
+    // A trailing "+" (/go/github+) or ?preview=1 shows the preview page instead of redirecting
+    const slug = slugParam.endsWith("+") ? slugParam.slice(0, -1) : slugParam
+    const previewQuery = getQuery(event).preview
+    const previewRequested = slug !== slugParam || previewQuery === "1" || previewQuery === "true"
+
+    // Get redirect URL, metadata and click count from KV
+    let redirectData: RedirectRecord | null
 
     try {
-      // Get redirect URL and metrics using simple KV keys
-      const [redirectUrl, clickCountStr] = await Promise.all([
-        kv.get(`redirect:${slug}`),
-        kv.get(`metrics:redirect:${slug}:ok`)
-      ])
-
-      if (redirectUrl) {
-        const clickCount = clickCountStr ? Number.parseInt(clickCountStr) : 0
-        redirectData = {
-          slug: slug,
-          url: redirectUrl,
-          clicks: clickCount,
-          created_at: Date.now().toString(),
-          updated_at: Date.now().toString()
-        }
-      }
+      redirectData = await getRedirect(kv, slug)
     } catch (error) {
       console.error("KV redirect lookup failed:", error)
       throw createApiError(500, "Failed to lookup redirect")
@@ -54,28 +63,125 @@ export default defineEventHandler(async (event) => {
       throw createApiError(404, `Redirect not found for slug: ${slug}`)
     }
 
+    // Extra path segments arrive from the /go/{slug}/{...path} catch-all route
+    const extraPath = getRouterParam(event, "path", { decode: true })
+    if (extraPath && !redirectData.forward_path) {
+      throw createApiError(404, `Redirect not found for slug: ${slug}/${extraPath}`)
+    }
+
     // Validate redirect data
     const redirect = UrlRedirectSchema.parse(redirectData)
+    const userAgent = getHeader(event, "user-agent") || ""
+
+    // Scheduled links don't exist yet as far as visitors are concerned
+    const availability = getRedirectAvailability(redirectData)
+    if (availability === "scheduled") {
+      throw createApiError(404, `Redirect not found for slug: ${slug}`)
+    }
+
+    if (availability === "expired" || availability === "exhausted") {
+      updateRedirectMetricsAsync(kv, slug, 410, userAgent)
+      logRequest(event, `go/${slug}`, "GET", 410, { availability })
+
+      return sendUnavailablePage(event, slug, availability)
+    }
+
+    // Serve the preview to people who asked for it and to bots unfurling a pasted link
+    if (previewRequested || isLinkUnfurlerUserAgent(userAgent)) {
+      logRequest(event, `go/${slug}`, "GET", 200, {
+        preview: previewRequested ? "requested" : "unfurl",
+        target: redirect.url
+      })
+
+      return sendGoPage(event, 200, getRedirectPreviewContent(redirectData))
+    }
+
+    // Choose the destination from the redirect's targeting rules
+    const cfInfo = getCloudflareRequestInfo(event)
+    const ruleContext = {
+      country: cfInfo.country,
+      platform: classifyPlatform(userAgent),
+      language: getPreferredLanguage(getHeader(event, "accept-language"))
+    }
+    const target = selectRedirectTarget(redirectData, ruleContext)
+    let destination = target.url
+    let variant: number | undefined
+
+    // Split fallback traffic across weighted variants, keeping visitors on their variant
+    const variants = redirectData.variants ?? []
+    if (target.rule === "fallback" && variants.length > 0) {
+      const secret = getJWTSecret(event)
+      const cookieName = getVariantCookieName(slug)
+      const assigned = await verifyVariantAssignment(secret, slug, variants, getCookie(event, cookieName))
+
+      variant = assigned ?? pickRedirectVariant(variants)
+      if (assigned === null) {
+        setCookie(event, cookieName, await signVariantAssignment(secret, slug, variant, variants[variant]!), {
+          path: `/go/${slug}`,
+          maxAge: 30 * 86400,
+          httpOnly: true,
+          secure: true,
+          sameSite: "lax"
+        })
+      }
+      destination = variants[variant]!.url
+    }
+
+    // Follow aliases to other short links here rather than making the visitor bounce through each one
+    const alias = await resolveRedirectAlias(kv, slug, destination, ruleContext, {
+      origins: [getRequestURL(event).origin]
+    })
+    destination = alias.url
+
+    // An expired or exhausted hop is gone for this visitor too
+    if (alias.unavailable) {
+      const { slug: hopSlug, availability: hopAvailability } = alias.unavailable
+      updateRedirectMetricsAsync(kv, slug, 410, userAgent)
+      updateRedirectMetricsAsync(kv, hopSlug, 410, userAgent)
+      logRequest(event, `go/${slug}`, "GET", 410, {
+        availability: hopAvailability,
+        aliases: [...alias.hops.map((hop) => hop.slug), hopSlug].join(",")
+      })
+
+      return sendUnavailablePage(event, hopSlug, hopAvailability)
+    }
+
+    destination = buildRedirectDestination(destination, {
+      path: extraPath,
+      query: redirectData.forward_query ? getRequestURL(event).searchParams : undefined
+    })
+    const statusCode = redirectData.status_code ?? 302
 
     // Update redirect metrics using new hierarchical schema asynchronously
     try {
-      const userAgent = getHeader(event, "user-agent") || ""
+      const clickInfo = {
+        country: cfInfo.country,
+        datacenter: cfInfo.datacenter,
+        referrer: getHeader(event, "referer")
+      }
       // Use updateRedirectMetricsAsync for non-blocking metrics update
-      updateRedirectMetricsAsync(kv, slug, 302, userAgent)
+      updateRedirectMetricsAsync(kv, slug, statusCode, userAgent, { ...clickInfo, rule: target.rule, variant })
+      // Aliases followed here count as clicks too, so their click limits and stats still apply
+      for (const hop of alias.hops) {
+        updateRedirectMetricsAsync(kv, hop.slug, statusCode, userAgent, { ...clickInfo, rule: hop.rule })
+      }
     } catch (error) {
       console.error("Failed to update redirect metrics:", error)
       // Continue with redirect even if metrics fails
     }
 
     // Log redirect request
-    logRequest(event, `go/${slug}`, "GET", 302, {
-      target: redirect.url,
+    logRequest(event, `go/${slug}`, "GET", statusCode, {
+      target: destination,
+      rule: target.rule,
+      variant,
+      aliases: alias.hops.length > 0 ? alias.hops.map((hop) => hop.slug).join(",") : undefined,
       clicks: redirect.clicks + 1,
       cached: "hit"
     })
 
     // Perform proper HTTP redirect
-    await sendRedirect(event, redirect.url, 302)
+    await sendRedirect(event, destination, statusCode)
   } catch (error: unknown) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
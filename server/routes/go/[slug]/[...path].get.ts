@@ -0,0 +1,2 @@
+// Prefix redirects (/go/gh/some/repo) share the /go/{slug} handler, which forwards the extra path
+export { default } from "../[slug].get"
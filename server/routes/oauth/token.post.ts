@@ -0,0 +1,125 @@
+import type { H3Event } from "h3"
+import { auditAuthDecision } from "~/server/utils/audit-log"
+import { signAccessToken } from "~/server/utils/auth"
+import { getCloudflareEnv, getD1Database } from "~/server/utils/cloudflare"
+import {
+  authenticateOAuthClient,
+  CLIENT_TOKEN_TTL_SECONDS,
+  resolveClientPermissions
+} from "~/server/utils/oauth-clients"
+import { isRevokedByCutoff } from "~/server/utils/revocation"
+import { createApiError, isApiError, logRequest } from "~/server/utils/response"
+
+// RFC 6749 error response; OAuth client libraries expect this shape rather than the API envelope
+function oauthError(event: H3Event, statusCode: number, error: string, description: string) {
+  logRequest(event, "oauth/token", "POST", statusCode, { error, success: false })
+
+  if (error === "invalid_client" && getHeader(event, "authorization")?.startsWith("Basic ")) {
+    setHeader(event, "www-authenticate", 'Basic realm="oauth"')
+  }
+  setHeader(event, "cache-control", "no-store")
+  setResponseStatus(event, statusCode)
+  return { error, error_description: description }
+}
+
+// Refuse a client's credentials or scope, recording the decision in the audit log
+function refuseClient(event: H3Event, statusCode: number, error: string, description: string, clientId?: string) {
+  auditAuthDecision(
+    event,
+    "oauth:token",
+    { success: false, error: description, statusCode },
+    clientId ? { sub: `client:${clientId}` } : undefined
+  )
+  return oauthError(event, statusCode, error, description)
+}
+
+// Client credentials from HTTP Basic auth (preferred by RFC 6749) or the form body
+function getClientCredentials(event: H3Event, body: Record<string, unknown>) {
+  const authorization = getHeader(event, "authorization")
+  if (authorization?.startsWith("Basic ")) {
+    try {
+      const [id = "", ...secret] = atob(authorization.slice(6)).split(":")
+      return { clientId: decodeURIComponent(id), clientSecret: decodeURIComponent(secret.join(":")) }
+    } catch {
+      return null
+    }
+  }
+
+  const { client_id, client_secret } = body
+  return typeof client_id === "string" && typeof client_secret === "string"
+    ? { clientId: client_id, clientSecret: client_secret }
+    : null
+}
+
+// OAuth2 token endpoint for the client_credentials grant (RFC 6749 section 4.4)
+export default defineEventHandler(async (event) => {
+  try {
+    let body: Record<string, unknown>
+    try {
+      body = (await readBody(event)) || {}
+    } catch {
+      return oauthError(event, 400, "invalid_request", "Invalid request body")
+    }
+
+    if (body.grant_type !== "client_credentials") {
+      return oauthError(event, 400, "unsupported_grant_type", "Only the client_credentials grant is supported")
+    }
+
+    const credentials = getClientCredentials(event, body)
+    if (!credentials) {
+      return refuseClient(event, 401, "invalid_client", "Client authentication is required")
+    }
+
+    const env = getCloudflareEnv(event)
+    const client = await authenticateOAuthClient(getD1Database(env), credentials.clientId, credentials.clientSecret)
+    if (!client) {
+      return refuseClient(event, 401, "invalid_client", "Client authentication failed", credentials.clientId)
+    }
+
+    // Revoking every token for the client's subject revokes the client too
+    const sub = `client:${client.clientId}`
+    if (env.KV && (await isRevokedByCutoff(env.KV, sub, client.createdAt))) {
+      return refuseClient(event, 401, "invalid_client", "Client has been revoked", client.clientId)
+    }
+
+    const permissions = resolveClientPermissions(client.scopes, typeof body.scope === "string" ? body.scope : undefined)
+    if (!permissions) {
+      return refuseClient(
+        event,
+        400,
+        "invalid_scope",
+        "Requested scope exceeds the client's allowed scopes",
+        client.clientId
+      )
+    }
+
+    const jti = crypto.randomUUID()
+    const accessToken = await signAccessToken(event, { sub, permissions }, jti, CLIENT_TOKEN_TTL_SECONDS)
+    auditAuthDecision(event, "oauth:token", { success: true }, { sub, jti })
+
+    logRequest(event, "oauth/token", "POST", 200, {
+      user: client.clientId,
+      scope: permissions.join(" ")
+    })
+
+    setHeader(event, "cache-control", "no-store")
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: CLIENT_TOKEN_TTL_SECONDS,
+      scope: permissions.join(" ")
+    }
+  } catch (error: unknown) {
+    console.error("OAuth token error:", error)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const statusCode = isApiError(error) ? (error as any).statusCode || 500 : 500
+    logRequest(event, "oauth/token", "POST", statusCode, { success: false })
+
+    if (isApiError(error)) {
+      throw error
+    }
+
+    throw createApiError(500, "Failed to issue token")
+  }
+})
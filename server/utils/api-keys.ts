@@ -0,0 +1,111 @@
+import type { AuthResult, JWTTokenPayload } from "./auth"
+
+/**
+ * Prefix marking opaque API keys so they're easy to spot in logs and secret scanners
+ */
+export const API_KEY_PREFIX = "dio_"
+
+/**
+ * API keys are stored as SHA-256 hashes only; the plaintext is shown once when the key is minted
+ */
+export const API_KEYS_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    key_hash TEXT NOT NULL UNIQUE,
+    description TEXT,
+    permissions TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at TEXT,
+    revoked_at TEXT
+  )
+`
+
+/**
+ * Stored API key, without its hash
+ */
+export interface APIKeyRecord {
+  id: string
+  description?: string
+  permissions: string[]
+  createdAt: string
+  expiresAt?: string
+  revokedAt?: string
+}
+
+/**
+ * Generate a new API key: the prefix followed by 32 random bytes in hex
+ */
+export function generateAPIKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return `${API_KEY_PREFIX}${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`
+}
+
+/**
+ * SHA-256 of an API key in hex; keys are random enough that a slow hash adds nothing
+ */
+export async function hashAPIKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Map an api_keys row to a record
+ */
+export function mapAPIKeyRow(row: Record<string, unknown>): APIKeyRecord {
+  let permissions: unknown
+  try {
+    permissions = JSON.parse(String(row.permissions))
+  } catch {
+    permissions = []
+  }
+
+  return {
+    id: row.id as string,
+    permissions: Array.isArray(permissions) ? permissions.filter((p): p is string => typeof p === "string") : [],
+    createdAt: row.created_at as string,
+    ...(row.description ? { description: row.description as string } : {}),
+    ...(row.expires_at ? { expiresAt: row.expires_at as string } : {}),
+    ...(row.revoked_at ? { revokedAt: row.revoked_at as string } : {})
+  }
+}
+
+/**
+ * Token-shaped payload for an API key, so permission checks, quotas and revocation treat both alike
+ * The key ID stands in for the jti
+ */
+export function getAPIKeyPayload(record: APIKeyRecord): JWTTokenPayload {
+  return {
+    sub: `api-key:${record.id}`,
+    iat: Math.floor(new Date(record.createdAt).getTime() / 1000),
+    jti: record.id,
+    permissions: record.permissions,
+    ...(record.expiresAt ? { exp: Math.floor(new Date(record.expiresAt).getTime() / 1000) } : {})
+  }
+}
+
+/**
+ * Look up an API key by its plaintext and check it is still usable
+ */
+export async function verifyAPIKey(db: D1Database, key: string, now = Date.now()): Promise<AuthResult> {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return { success: false, error: "Invalid API key" }
+  }
+
+  const row = await db
+    .prepare("SELECT * FROM api_keys WHERE key_hash = ?")
+    .bind(await hashAPIKey(key))
+    .first<Record<string, unknown>>()
+  if (!row) {
+    return { success: false, error: "Invalid API key" }
+  }
+
+  const record = mapAPIKeyRow(row)
+  if (record.revokedAt) {
+    return { success: false, error: "API key has been revoked" }
+  }
+  if (record.expiresAt && new Date(record.expiresAt).getTime() <= now) {
+    return { success: false, error: "API key expired" }
+  }
+
+  return { success: true, payload: getAPIKeyPayload(record), apiKeyId: record.id }
+}
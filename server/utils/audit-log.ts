@@ -0,0 +1,214 @@
+import type { H3Event } from "h3"
+import type { AuthResult } from "./auth"
+import { getCloudflareRequestInfo } from "./cloudflare"
+
+/**
+ * One row per authorization decision; sub, jti and the verifying kid or API key ID are only known
+ * once the credential has verified
+ */
+export const AUTH_EVENTS_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS auth_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    decision TEXT NOT NULL,
+    resource TEXT NOT NULL,
+    sub TEXT,
+    jti TEXT,
+    kid TEXT,
+    api_key_id TEXT,
+    reason TEXT,
+    status_code INTEGER,
+    ip TEXT,
+    country TEXT,
+    ray TEXT
+  )
+`
+
+/**
+ * Columns added after the table was first created, so bin/jwt init adds them to older tables
+ */
+export const AUTH_EVENTS_ADDED_COLUMNS = {
+  kid: "TEXT",
+  api_key_id: "TEXT"
+}
+
+export const AUTH_EVENTS_INDEX_SQL = [
+  "CREATE INDEX IF NOT EXISTS idx_auth_events_created_at ON auth_events(created_at)",
+  "CREATE INDEX IF NOT EXISTS idx_auth_events_sub ON auth_events(sub, created_at)",
+  "CREATE INDEX IF NOT EXISTS idx_auth_events_jti ON auth_events(jti, created_at)"
+]
+
+/**
+ * Recorded authorization decision
+ */
+export interface AuthEvent {
+  id?: number
+  createdAt: string
+  decision: "allowed" | "denied"
+  resource: string
+  sub?: string
+  jti?: string
+  kid?: string // Signing key that verified the token, so key rotations can be tracked
+  apiKeyId?: string // API key that authenticated the request
+  reason?: string // Why a request was denied
+  statusCode?: number
+  ip?: string
+  country?: string
+  ray?: string
+}
+
+/**
+ * Subject, token ID and verifying key an audit record is filed under
+ */
+export interface AuthCredential {
+  sub?: string
+  jti?: string
+  kid?: string
+  apiKeyId?: string
+}
+
+/**
+ * Filters and paging for reading the audit log; from and to are ISO timestamps (inclusive)
+ */
+export interface AuthEventQuery {
+  sub?: string
+  jti?: string
+  from?: string
+  to?: string
+  page: number
+  perPage: number
+}
+
+/**
+ * Build the audit record for an authorization decision on a resource
+ * credential identifies the caller, which refused results don't carry
+ */
+export function createAuthEvent(
+  event: H3Event,
+  resource: string,
+  result: AuthResult,
+  credential: AuthCredential | undefined = result.payload,
+  now = Date.now()
+): AuthEvent {
+  const { ip, country, ray } = getCloudflareRequestInfo(event)
+
+  return {
+    createdAt: new Date(now).toISOString(),
+    decision: result.success ? "allowed" : "denied",
+    resource,
+    ...(credential?.sub ? { sub: credential.sub } : {}),
+    ...(credential?.jti ? { jti: credential.jti } : {}),
+    ...(credential?.kid ? { kid: credential.kid } : {}),
+    ...(credential?.apiKeyId ? { apiKeyId: credential.apiKeyId } : {}),
+    ...(result.success ? { statusCode: 200 } : { reason: result.error, statusCode: result.statusCode ?? 401 }),
+    ...(ip === "unknown" ? {} : { ip }),
+    ...(country === "unknown" ? {} : { country }),
+    ...(ray === "unknown" ? {} : { ray })
+  }
+}
+
+/**
+ * Insert an audit record
+ */
+export async function recordAuthEvent(db: D1Database, authEvent: AuthEvent): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO auth_events
+         (created_at, decision, resource, sub, jti, kid, api_key_id, reason, status_code, ip, country, ray)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      authEvent.createdAt,
+      authEvent.decision,
+      authEvent.resource,
+      authEvent.sub ?? null,
+      authEvent.jti ?? null,
+      authEvent.kid ?? null,
+      authEvent.apiKeyId ?? null,
+      authEvent.reason ?? null,
+      authEvent.statusCode ?? null,
+      authEvent.ip ?? null,
+      authEvent.country ?? null,
+      authEvent.ray ?? null
+    )
+    .run()
+}
+
+/**
+ * Write an authorization decision to the audit log without holding up the response
+ * Uses the Worker's waitUntil so the write outlives the request; failures are only logged
+ */
+export function auditAuthDecision(
+  event: H3Event,
+  resource: string,
+  result: AuthResult,
+  credential?: AuthCredential
+): void {
+  const cloudflare = event.context.cloudflare as { env?: { D1?: D1Database }; context?: ExecutionContext } | undefined
+  const db = cloudflare?.env?.D1
+  if (!db) {
+    return
+  }
+
+  const write = recordAuthEvent(db, createAuthEvent(event, resource, result, credential)).catch((error) => {
+    console.error("Failed to record auth event:", error)
+  })
+  cloudflare.context?.waitUntil(write)
+}
+
+/**
+ * Map an auth_events row to a record
+ */
+export function mapAuthEventRow(row: Record<string, unknown>): AuthEvent {
+  return {
+    id: row.id as number,
+    createdAt: row.created_at as string,
+    decision: row.decision === "allowed" ? "allowed" : "denied",
+    resource: row.resource as string,
+    ...(row.sub ? { sub: row.sub as string } : {}),
+    ...(row.jti ? { jti: row.jti as string } : {}),
+    ...(row.kid ? { kid: row.kid as string } : {}),
+    ...(row.api_key_id ? { apiKeyId: row.api_key_id as string } : {}),
+    ...(row.reason ? { reason: row.reason as string } : {}),
+    ...(typeof row.status_code === "number" ? { statusCode: row.status_code } : {}),
+    ...(row.ip ? { ip: row.ip as string } : {}),
+    ...(row.country ? { country: row.country as string } : {}),
+    ...(row.ray ? { ray: row.ray as string } : {})
+  }
+}
+
+/**
+ * Read a page of the audit log, newest first, with the total number of matching events
+ */
+export async function queryAuthEvents(
+  db: D1Database,
+  query: AuthEventQuery
+): Promise<{ events: AuthEvent[]; total: number }> {
+  const conditions: string[] = []
+  const params: string[] = []
+
+  for (const [column, value] of [
+    ["sub = ?", query.sub],
+    ["jti = ?", query.jti],
+    ["created_at >= ?", query.from],
+    ["created_at <= ?", query.to]
+  ] as const) {
+    if (value) {
+      conditions.push(column)
+      params.push(value)
+    }
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""
+
+  const [count, rows] = await db.batch<Record<string, unknown>>([
+    db.prepare(`SELECT COUNT(*) AS total FROM auth_events ${where}`).bind(...params),
+    db
+      .prepare(`SELECT * FROM auth_events ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+      .bind(...params, query.perPage, (query.page - 1) * query.perPage)
+  ])
+
+  return {
+    events: (rows?.results ?? []).map(mapAuthEventRow),
+    total: Number(count?.results?.[0]?.total ?? 0)
+  }
+}
@@ -1,6 +1,6 @@
 import type { H3Event } from "h3"
 import { authorizeEndpoint } from "./auth"
-import type { AuthResult } from "./auth"
+import type { AuthorizeOptions, AuthResult } from "./auth"
 import { createApiError } from "./response"
 
 /**
@@ -9,12 +9,17 @@ import { createApiError } from "./response"
  * 2. Check success
  * 3. Throw error if failed
  */
-export async function requireAuth(event: H3Event, endpoint: string, subResource?: string): Promise<AuthResult> {
-  const authFunc = await authorizeEndpoint(endpoint, subResource)
+export async function requireAuth(
+  event: H3Event,
+  endpoint: string,
+  subResource?: string,
+  options?: AuthorizeOptions
+): Promise<AuthResult> {
+  const authFunc = await authorizeEndpoint(endpoint, subResource, options)
   const auth = await authFunc(event)
 
   if (!auth.success) {
-    throw createApiError(401, auth.error || "Unauthorized")
+    throw createApiError(auth.statusCode || 401, auth.error || "Unauthorized")
   }
 
   return auth
@@ -30,3 +35,7 @@ export const requireAIAuth = (event: H3Event, resource?: string) => requireAuth(
 export const requireDashboardAuth = (event: H3Event, resource?: string) => requireAuth(event, "dashboard", resource)
 
 export const requireAdminAuth = (event: H3Event) => requireAuth(event, "admin")
+
+// Any valid credential, for endpoints where a caller only acts on its own token
+export const requireCredentialAuth = (event: H3Event, resource: string) =>
+  requireAuth(event, "auth", resource, { anyPermission: true })
@@ -1,6 +1,18 @@
 import type { H3Event } from "h3"
-import { jwtVerify } from "jose"
-import type { JWTPayload } from "jose"
+import { getRequestURL } from "h3"
+import { decodeProtectedHeader, errors, importJWK, jwtVerify, SignJWT } from "jose"
+import type { JWK, JWTPayload, JWTVerifyResult } from "jose"
+import { verifyAPIKey } from "./api-keys"
+import { auditAuthDecision } from "./audit-log"
+import { createKVPublicKeyResolver, getEffectiveKeyStatus, getSigningKey, isAsymmetricAlgorithm } from "./jwks"
+import type { JWTPublicKeyResolver } from "./jwks"
+import { explainPermission } from "./permissions"
+import { checkTokenRevocation, DEFAULT_REVOCATION_FAIL_CLOSED, isRevocationFailClosed } from "./revocation"
+import type { RevocationState } from "./revocation"
+import { TokenBindingClaimsSchema } from "./schemas"
+import { checkTokenBinding } from "./token-binding"
+import { getTokenMaxRequests, recordTokenUsage } from "./token-usage"
+import type { TokenQuotaResult } from "./token-usage"
 
 // JWT payload structure matching dave-io Worker
 export interface JWTTokenPayload extends JWTPayload {
@@ -9,6 +21,16 @@ export interface JWTTokenPayload extends JWTPayload {
   exp?: number // Expiration time
   jti?: string // JWT ID for revocation
   permissions?: string[] // Hierarchical permissions array
+  ip_allow?: string[] // IP addresses or CIDR ranges the token may be used from
+  origin_allow?: string[] // Origins the token may be used from
+  use?: "once" // Single-use token, consumed by its first authorized request
+}
+
+// Issuer and audiences this deployment accepts; unset values aren't checked
+export interface JWTClaimExpectations {
+  issuer?: string
+  audience?: string[]
+  requireAudience?: boolean // Reject tokens without an aud claim
 }
 
 // Authorization result
@@ -19,6 +41,14 @@ export interface AuthResult {
   requestCount?: number
   sub?: string
   tokenSubject?: string
+  kid?: string // Signing key that verified the token (unset for HS256 shared-secret tokens)
+  apiKeyId?: string // API key that authenticated the request (unset for JWTs)
+  statusCode?: number // HTTP status for failures other than 401 (e.g. 403 for IP/origin binding, 429 for quotas)
+}
+
+// How authorizeEndpoint treats a resource
+export interface AuthorizeOptions {
+  anyPermission?: boolean // Accept any valid credential whatever its permissions, e.g. for describing itself
 }
 
 // Extract JWT token from request (Authorization header or query parameter)
@@ -38,13 +68,94 @@ export function extractToken(event: H3Event): string | null {
   return null
 }
 
-// Verify JWT token
-export async function verifyJWT(token: string, secret: string): Promise<AuthResult> {
-  try {
-    const encoder = new TextEncoder()
-    const secretKey = encoder.encode(secret)
+// Extract an opaque API key from the X-API-Key header
+export function extractAPIKey(event: H3Event): string | null {
+  return getHeader(event, "x-api-key") || null
+}
 
-    const { payload } = await jwtVerify(token, secretKey)
+// Leeway for nbf, since bin/jwt stamps new tokens valid from the moment they're minted
+const JWT_CLOCK_TOLERANCE_SECONDS = 60
+
+// Verify an HS256 token against each shared secret in turn, so a previous secret keeps working during a rotation
+async function verifyHS256Signature(token: string, secrets: string[]): Promise<JWTVerifyResult> {
+  let lastError: unknown = new Error("No JWT secret configured")
+
+  for (const secret of secrets) {
+    try {
+      return await jwtVerify(token, new TextEncoder().encode(secret), {
+        algorithms: ["HS256"],
+        clockTolerance: JWT_CLOCK_TOLERANCE_SECONDS
+      })
+    } catch (error) {
+      // Only a signature mismatch means another secret might still verify the token
+      if (!(error instanceof errors.JWSSignatureVerificationFailed)) {
+        throw error
+      }
+      lastError = error
+    }
+  }
+
+  throw lastError
+}
+
+// Verify a token's signature, choosing the key from its alg and kid headers
+async function verifyJWTSignature(
+  token: string,
+  secret: string | string[],
+  resolvePublicKey?: JWTPublicKeyResolver
+): Promise<JWTVerifyResult> {
+  const { alg, kid } = decodeProtectedHeader(token)
+
+  // Shared-secret tokens keep working while clients migrate to asymmetric keys
+  if (alg === "HS256") {
+    return verifyHS256Signature(token, [secret].flat().filter(Boolean))
+  }
+
+  if (!isAsymmetricAlgorithm(alg)) {
+    throw new Error(`Unsupported token algorithm: ${alg}`)
+  }
+  if (!kid) {
+    throw new Error("Invalid token: missing key ID")
+  }
+
+  const jwk = resolvePublicKey ? await resolvePublicKey(kid) : null
+  if (!jwk || jwk.alg !== alg) {
+    throw new Error(`Unknown signing key: ${kid}`)
+  }
+
+  return jwtVerify(token, await importJWK(jwk, alg), { algorithms: [alg], clockTolerance: JWT_CLOCK_TOLERANCE_SECONDS })
+}
+
+// Check a token's iss and aud claims against what this deployment accepts
+function validateJWTClaims(payload: JWTPayload, expected: JWTClaimExpectations): string | null {
+  if (expected.issuer && payload.iss !== expected.issuer) {
+    return `Invalid token: issuer ${payload.iss ?? "missing"}, expected ${expected.issuer}`
+  }
+
+  if (expected.audience?.length) {
+    const audiences = payload.aud === undefined ? [] : [payload.aud].flat()
+    const mismatch =
+      audiences.length === 0
+        ? expected.requireAudience
+        : !audiences.some((audience) => expected.audience?.includes(audience))
+    if (mismatch) {
+      return `Invalid token: audience ${audiences.join(", ") || "missing"}, expected ${expected.audience.join(" or ")}`
+    }
+  }
+
+  return null
+}
+
+// Verify JWT token (HS256 with the shared secret, or ES256/EdDSA with the public key named by kid)
+// Pass several secrets to also accept tokens signed with a previous HS256 secret
+export async function verifyJWT(
+  token: string,
+  secret: string | string[],
+  resolvePublicKey?: JWTPublicKeyResolver,
+  expected: JWTClaimExpectations = {}
+): Promise<AuthResult> {
+  try {
+    const { payload, protectedHeader } = await verifyJWTSignature(token, secret, resolvePublicKey)
 
     // Validate required fields
     if (!payload.sub || typeof payload.sub !== "string") {
@@ -60,11 +171,28 @@ export async function verifyJWT(token: string, secret: string): Promise<AuthResu
       return { success: false, error: "Token expired" }
     }
 
+    // A malformed binding claim would otherwise crash the binding check; refuse the token instead
+    const binding = TokenBindingClaimsSchema.safeParse(payload)
+    if (!binding.success) {
+      return { success: false, error: `Invalid token: ${binding.error.issues[0]?.path[0]} must be a list of strings` }
+    }
+
+    const claimError = validateJWTClaims(payload, expected)
+    if (claimError) {
+      return { success: false, error: claimError }
+    }
+
     return {
       success: true,
-      payload: payload as JWTTokenPayload
+      payload: payload as JWTTokenPayload,
+      kid: protectedHeader.alg === "HS256" ? undefined : protectedHeader.kid
     }
   } catch (error) {
+    // jose checks nbf itself and only reports a failed timestamp check
+    if (error instanceof errors.JWTClaimValidationFailed && error.claim === "nbf") {
+      return { success: false, error: "Token not yet valid" }
+    }
+
     return {
       success: false,
       error: error instanceof Error ? error.message : "Token verification failed"
@@ -72,28 +200,9 @@ export async function verifyJWT(token: string, secret: string): Promise<AuthResu
   }
 }
 
-// Check if permissions array contains required permission (hierarchical)
+// Check if permissions array contains required permission (hierarchical, with wildcards and deny rules)
 export function hasPermission(permissions: string[], required: string): boolean {
-  // Check for wildcard or admin access
-  if (permissions.includes("*") || permissions.includes("admin")) {
-    return true
-  }
-
-  // Check for exact match
-  if (permissions.includes(required)) {
-    return true
-  }
-
-  // Check for hierarchical match (parent:child pattern)
-  const parts = required.split(":")
-  for (let i = parts.length - 1; i > 0; i--) {
-    const parent = parts.slice(0, i).join(":")
-    if (permissions.includes(parent)) {
-      return true
-    }
-  }
-
-  return false
+  return explainPermission(permissions, required).allowed
 }
 
 // Check if subject has permission for endpoint (legacy single-subject API)
@@ -120,94 +229,353 @@ export function validateTokenPermissions(
   return hasPermission(token.permissions, required)
 }
 
-// Check if token is revoked (JTI blacklist)
-export async function isTokenRevoked(event: H3Event, jti: string): Promise<boolean> {
-  if (!jti) {
-    return false
+// Get the JWT secret from the Cloudflare environment or runtime config
+export function getJWTSecret(event: H3Event): string {
+  let secret: string
+
+  const env = event.context.cloudflare?.env as { API_JWT_SECRET?: string }
+  const configSecret = useRuntimeConfig(event).apiJwtSecret
+
+  // Prefer Cloudflare Workers secret when available
+  if (env?.API_JWT_SECRET) {
+    secret = env.API_JWT_SECRET
+
+    // Detect mismatched secrets between environments
+    if (configSecret && configSecret !== secret) {
+      console.warn("JWT secret mismatch between Cloudflare environment and runtime config")
+    }
+  } else {
+    // Fallback to runtime config for non-Cloudflare environments
+    secret = configSecret
   }
 
-  try {
-    // Get KV binding from event context
-    const env = event.context.cloudflare?.env as { KV?: KVNamespace }
-    if (!env?.KV) {
-      console.warn("KV binding not available, assuming token not revoked")
-      return false
+  if (!secret || secret === "dev-secret-change-in-production") {
+    console.warn("Using default JWT secret - this is insecure for production!")
+  }
+
+  return secret
+}
+
+// Get every HS256 secret that verifies tokens: the signing secret, then API_JWT_PREVIOUS_SECRET while a rotation is underway
+export function getJWTVerificationSecrets(event: H3Event): string[] {
+  const env = event.context.cloudflare?.env as { API_JWT_PREVIOUS_SECRET?: string }
+  const previous = env?.API_JWT_PREVIOUS_SECRET || useRuntimeConfig(event).apiJwtPreviousSecret
+
+  return previous ? [getJWTSecret(event), previous] : [getJWTSecret(event)]
+}
+
+// Check API_JWT_PRIVATE_KEY against the keys published in KV, since bin/jwt rotate can't update the secret itself
+// A key that is no longer primary still signs until its grace period ends; a retired or unknown key never does,
+// as nothing would accept the tokens it signs
+async function checkPrivateKeyStatus(event: H3Event, kid: string): Promise<void> {
+  const env = event.context.cloudflare?.env as { KV?: KVNamespace }
+  if (!env?.KV) {
+    return
+  }
+
+  const key = await getSigningKey(env.KV, kid)
+  const status = key ? getEffectiveKeyStatus(key) : "retired"
+  if (status === "retired") {
+    throw new Error(`API_JWT_PRIVATE_KEY holds ${kid}, which is not a published signing key; set it to the primary key`)
+  }
+  if (status === "verify-only") {
+    console.warn(
+      `API_JWT_PRIVATE_KEY holds ${kid}, which is no longer the primary signing key; update it after rotating`
+    )
+  }
+}
+
+// Sign a token issued by the API itself: with API_JWT_PRIVATE_KEY (ES256/EdDSA) when set, else the HS256 secret
+export async function signJWT(event: H3Event, payload: JWTTokenPayload): Promise<string> {
+  const env = event.context.cloudflare?.env as { API_JWT_PRIVATE_KEY?: string }
+  const privateKey = env?.API_JWT_PRIVATE_KEY || useRuntimeConfig(event).apiJwtPrivateKey
+
+  if (privateKey) {
+    const jwk = JSON.parse(privateKey) as JWK
+    if (!isAsymmetricAlgorithm(jwk.alg) || !jwk.kid) {
+      throw new Error("API_JWT_PRIVATE_KEY must be an ES256 or EdDSA JWK with a kid")
     }
+    await checkPrivateKeyStatus(event, jwk.kid)
+    return new SignJWT(payload).setProtectedHeader({ alg: jwk.alg, kid: jwk.kid }).sign(await importJWK(jwk, jwk.alg))
+  }
+
+  return new SignJWT(payload).setProtectedHeader({ alg: "HS256" }).sign(new TextEncoder().encode(getJWTSecret(event)))
+}
+
+// Mint a short-lived access token for a subject and its permissions, bound to this deployment's issuer and audience
+export function signAccessToken(
+  event: H3Event,
+  grant: Pick<JWTTokenPayload, "sub" | "permissions">,
+  jti: string,
+  ttlSeconds: number,
+  now = Date.now()
+): Promise<string> {
+  const { issuer, audience } = getJWTClaimExpectations(event)
+  const iat = Math.floor(now / 1000)
+
+  return signJWT(event, {
+    sub: grant.sub,
+    iat,
+    exp: iat + ttlSeconds,
+    jti,
+    ...(grant.permissions ? { permissions: grant.permissions } : {}),
+    ...(issuer ? { iss: issuer } : {}),
+    ...(audience?.length ? { aud: audience[0] } : {})
+  })
+}
+
+// Parse API_JWT_ISSUER and the comma-separated API_JWT_AUDIENCE; bin/jwt uses the same values as its defaults
+export function parseJWTClaimConfig(issuer?: string, audience?: string): { issuer?: string; audience: string[] } {
+  return {
+    issuer: issuer || undefined,
+    audience: (audience || "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean)
+  }
+}
+
+// Get the issuer and audiences tokens must carry from the Cloudflare environment or runtime config
+// Without configured audiences, a token that names an audience must name the origin it's used on,
+// so tokens minted for one deployment or preview URL don't work on the others
+export function getJWTClaimExpectations(event: H3Event): JWTClaimExpectations {
+  const env = event.context.cloudflare?.env as { API_JWT_ISSUER?: string; API_JWT_AUDIENCE?: string }
+  const config = useRuntimeConfig(event)
 
-    // Check KV store for revoked tokens using simple key format
-    const revoked = await env.KV.get(`token:${jti}:revoked`)
-    return revoked === "true"
+  const { issuer, audience } = parseJWTClaimConfig(
+    env?.API_JWT_ISSUER || config.apiJwtIssuer,
+    env?.API_JWT_AUDIENCE || config.apiJwtAudience
+  )
+
+  if (audience.length > 0) {
+    return { issuer, audience, requireAudience: true }
+  }
+
+  try {
+    return { issuer, audience: [getRequestURL(event).origin] }
+  } catch {
+    return { issuer }
+  }
+}
+
+// Get the resolver for public signing keys published in KV
+export function getJWTPublicKeyResolver(event: H3Event): JWTPublicKeyResolver | undefined {
+  const env = event.context.cloudflare?.env as { KV?: KVNamespace }
+  return env?.KV ? createKVPublicKeyResolver(env.KV) : undefined
+}
+
+// Verify the request's credential: a JWT (Bearer or ?token=) or an X-API-Key
+// The result is kept on the event, so rate limiting and the handler's authorization verify it once between them
+export function authenticateRequest(event: H3Event): Promise<AuthResult> {
+  const cached = event.context.authentication as Promise<AuthResult> | undefined
+  if (cached) {
+    return cached
+  }
+
+  const authentication = verifyRequestCredential(event)
+  event.context.authentication = authentication
+  return authentication
+}
+
+async function verifyRequestCredential(event: H3Event): Promise<AuthResult> {
+  const token = extractToken(event)
+  if (token) {
+    return verifyJWT(
+      token,
+      getJWTVerificationSecrets(event),
+      getJWTPublicKeyResolver(event),
+      getJWTClaimExpectations(event)
+    )
+  }
+
+  const apiKey = extractAPIKey(event)
+  if (!apiKey) {
+    return { success: false, error: "No token provided" }
+  }
+
+  return authenticateAPIKey(event, apiKey)
+}
+
+// Verify an opaque API key against the hashes stored in D1
+export async function authenticateAPIKey(event: H3Event, apiKey: string): Promise<AuthResult> {
+  const env = event.context.cloudflare?.env as { D1?: D1Database }
+  if (!env?.D1) {
+    return { success: false, error: "API keys are not available", statusCode: 503 }
+  }
+
+  try {
+    return await verifyAPIKey(env.D1, apiKey)
   } catch (error) {
-    console.error("Failed to check token revocation:", error)
-    // Fail open - assume not revoked but log the error
-    return false
+    console.error("Failed to verify API key:", error)
+    return { success: false, error: "API key verification failed", statusCode: 503 }
   }
 }
 
-// Main authorization function
-export async function authorizeEndpoint(
-  endpoint: string,
-  subResource?: string
-): Promise<(event: H3Event) => Promise<AuthResult>> {
-  return async (event: H3Event): Promise<AuthResult> => {
-    const token = extractToken(event)
-    if (!token) {
-      return { success: false, error: "No token provided" }
-    }
+// Check whether a token is revoked, by jti or by a bulk revocation of its subject or issue time
+// Unknown when KV can't be read; without a KV binding at all, tokens are treated as not revoked
+export async function getTokenRevocationState(event: H3Event, payload: JWTTokenPayload): Promise<RevocationState> {
+  const env = event.context.cloudflare?.env as { KV?: KVNamespace }
+  if (!env?.KV) {
+    console.warn("KV binding not available, assuming token not revoked")
+    return "active"
+  }
 
-    // Get JWT secret from Cloudflare environment or runtime config
-    let secret: string
+  return checkTokenRevocation(env.KV, payload)
+}
 
-    const env = event.context.cloudflare?.env as { API_JWT_SECRET?: string }
-    const configSecret = useRuntimeConfig(event).apiJwtSecret
+// Get the permission prefixes that refuse requests when revocation state is unknown
+export function getRevocationFailClosedPrefixes(event: H3Event): string[] {
+  const env = event.context.cloudflare?.env as { API_REVOCATION_FAIL_CLOSED?: string }
+  const configured = env?.API_REVOCATION_FAIL_CLOSED ?? useRuntimeConfig(event).apiRevocationFailClosed
+
+  return typeof configured === "string"
+    ? configured
+        .split(",")
+        .map((prefix) => prefix.trim())
+        .filter(Boolean)
+    : DEFAULT_REVOCATION_FAIL_CLOSED
+}
 
-    // Prefer Cloudflare Workers secret when available
-    if (env?.API_JWT_SECRET) {
-      secret = env.API_JWT_SECRET
+// Count a request against the token's quota and report what's left in X-RateLimit-* headers
+export async function checkTokenQuota(event: H3Event, jti: string): Promise<TokenQuotaResult | null> {
+  const env = event.context.cloudflare?.env as { KV?: KVNamespace; D1?: D1Database }
+  if (!env?.D1) {
+    console.warn("D1 binding not available, token usage not recorded")
+    return null
+  }
 
-      // Detect mismatched secrets between environments
-      if (configSecret && configSecret !== secret) {
-        console.warn("JWT secret mismatch between Cloudflare environment and runtime config")
-      }
-    } else {
-      // Fallback to runtime config for non-Cloudflare environments
-      secret = configSecret
-    }
+  try {
+    const maxRequests = env.KV ? await getTokenMaxRequests(env.KV, jti) : undefined
+    const quota = await recordTokenUsage(env.D1, jti, maxRequests)
 
-    if (!secret || secret === "dev-secret-change-in-production") {
-      console.warn("Using default JWT secret - this is insecure for production!")
+    if (quota.maxRequests !== undefined) {
+      setHeader(event, "X-RateLimit-Limit", String(quota.maxRequests))
+      setHeader(event, "X-RateLimit-Remaining", String(quota.remaining ?? 0))
     }
 
-    // Verify token
-    const verification = await verifyJWT(token, secret)
-    if (!verification.success || !verification.payload) {
-      return verification
-    }
+    return quota
+  } catch (error) {
+    console.error("Failed to record token usage:", error)
+    // Fail open like revocation checks - log the error but let the request through
+    return null
+  }
+}
 
-    const { payload } = verification
+// Consume a single-use token, returning the refusal if it has been used before
+// The use is recorded with a one-request quota in a single D1 statement, so concurrent replays can't both succeed;
+// unlike quotas this fails closed, since a token that can't be consumed can't be kept to one use
+export async function consumeSingleUseToken(event: H3Event, jti?: string): Promise<AuthResult | null> {
+  if (!jti) {
+    return { success: false, error: "Single-use token has no jti" }
+  }
 
-    // Check if token is revoked
-    if (payload.jti && (await isTokenRevoked(event, payload.jti))) {
-      return { success: false, error: "Token has been revoked" }
-    }
+  const env = event.context.cloudflare?.env as { D1?: D1Database }
+  if (!env?.D1) {
+    return { success: false, error: "Single-use tokens are not available", statusCode: 503 }
+  }
+
+  try {
+    const usage = await recordTokenUsage(env.D1, jti, 1)
+    return usage.allowed ? null : { success: false, error: "Single-use token has already been used" }
+  } catch (error) {
+    console.error("Failed to consume single-use token:", error)
+    return { success: false, error: "Single-use token could not be consumed", statusCode: 503 }
+  }
+}
 
-    // Build full endpoint path
-    const fullEndpoint = subResource ? `${endpoint}:${subResource}` : endpoint
+// Check a verified credential against revocation, binding claims, permissions and quota
+async function authorizeVerifiedRequest(
+  event: H3Event,
+  fullEndpoint: string,
+  verification: AuthResult & { payload: JWTTokenPayload },
+  options: AuthorizeOptions
+): Promise<AuthResult> {
+  const { payload } = verification
+
+  // Check if token is revoked; when that can't be told, fail-closed prefixes refuse the request
+  const revocation = await getTokenRevocationState(event, payload)
+  if (revocation === "revoked") {
+    return { success: false, error: "Token has been revoked" }
+  }
+  if (revocation === "unknown" && isRevocationFailClosed(fullEndpoint, getRevocationFailClosedPrefixes(event))) {
+    return { success: false, error: "Token revocation status unavailable", statusCode: 503 }
+  }
+
+  // Enforce IP and origin binding claims so a leaked token is useless elsewhere
+  const bindingError = checkTokenBinding(payload, {
+    ip: getHeader(event, "cf-connecting-ip"),
+    origin: getHeader(event, "origin")
+  })
+  if (bindingError) {
+    return { success: false, error: bindingError, statusCode: 403 }
+  }
+
+  // Check permissions using new hierarchical system
+  if (!options.anyPermission && !validateTokenPermissions(payload, fullEndpoint)) {
+    return {
+      success: false,
+      error: `Insufficient permissions for ${fullEndpoint}`
+    }
+  }
 
-    // Check permissions using new hierarchical system
-    if (!validateTokenPermissions(payload, fullEndpoint)) {
+  // Single-use tokens are consumed by this request, which also stands in for any quota
+  if (payload.use === "once") {
+    const consumed = await consumeSingleUseToken(event, payload.jti)
+    if (consumed) {
+      return consumed
+    }
+  } else if (payload.jti) {
+    const quota = await checkTokenQuota(event, payload.jti)
+    if (quota && !quota.allowed) {
       return {
         success: false,
-        error: `Insufficient permissions for ${fullEndpoint}`
+        error: `Token request quota exceeded (${quota.maxRequests} requests)`,
+        statusCode: 429
       }
     }
+  }
 
-    return {
-      success: true,
-      payload,
-      sub: payload.sub,
-      tokenSubject: payload.sub
-    }
+  return {
+    success: true,
+    payload,
+    sub: payload.sub,
+    tokenSubject: payload.sub,
+    kid: verification.kid,
+    apiKeyId: verification.apiKeyId
+  }
+}
+
+// Main authorization function
+export async function authorizeEndpoint(
+  endpoint: string,
+  subResource?: string,
+  options: AuthorizeOptions = {}
+): Promise<(event: H3Event) => Promise<AuthResult>> {
+  // Build full endpoint path
+  const fullEndpoint = subResource ? `${endpoint}:${subResource}` : endpoint
+
+  return async (event: H3Event): Promise<AuthResult> => {
+    // Verify token or API key
+    const verification = await authenticateRequest(event)
+    const result =
+      verification.success && verification.payload
+        ? await authorizeVerifiedRequest(
+            event,
+            fullEndpoint,
+            { ...verification, payload: verification.payload },
+            options
+          )
+        : verification
+
+    // Audit every decision, with the credential's subject and verifying key even when the request is refused
+    auditAuthDecision(event, fullEndpoint, result, {
+      sub: verification.payload?.sub,
+      jti: verification.payload?.jti,
+      kid: verification.kid,
+      apiKeyId: verification.apiKeyId
+    })
+
+    return result
   }
 }
 
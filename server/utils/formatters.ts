@@ -2,6 +2,7 @@ import { XMLParser } from "fast-xml-parser"
 import type { H3Event } from "h3"
 import { dump as yamlDump } from "js-yaml"
 import { createApiError } from "./response"
+import type { RedirectStats } from "./schemas"
 
 interface RSSItem {
   title?: string
@@ -71,6 +72,77 @@ export function formatMetricsAsPrometheus(metrics: {
   return lines.join("\n")
 }
 
+/**
+ * Flatten redirect click buckets into rows of bucket, dimension, value and clicks
+ */
+function flattenRedirectStats(stats: RedirectStats): Array<[string, string, string, number]> {
+  const rows: Array<[string, string, string, number]> = []
+
+  for (const bucket of stats.buckets) {
+    rows.push([bucket.bucket, "total", "", bucket.clicks])
+    for (const [country, clicks] of Object.entries(bucket.countries)) {
+      rows.push([bucket.bucket, "country", country, clicks])
+    }
+    for (const [datacenter, clicks] of Object.entries(bucket.datacenters)) {
+      rows.push([bucket.bucket, "datacenter", datacenter, clicks])
+    }
+    for (const [referrer, clicks] of Object.entries(bucket.referrers)) {
+      rows.push([bucket.bucket, "referrer", referrer, clicks])
+    }
+  }
+
+  return rows
+}
+
+/**
+ * Format redirect click stats as YAML
+ */
+export function formatRedirectStatsAsYAML(stats: RedirectStats): string {
+  return yamlDump(stats, {
+    indent: 2,
+    lineWidth: 120,
+    noRefs: true
+  })
+}
+
+/**
+ * Format redirect click stats as CSV with one row per bucket and dimension
+ */
+export function formatRedirectStatsAsCSV(stats: RedirectStats): string {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+  const lines = ["slug,granularity,bucket,dimension,value,clicks"]
+
+  for (const [bucket, dimension, value, clicks] of flattenRedirectStats(stats)) {
+    lines.push([stats.slug, stats.granularity, bucket, dimension, escape(value), clicks].join(","))
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Format redirect click stats as Prometheus exposition format
+ */
+export function formatRedirectStatsAsPrometheus(stats: RedirectStats): string {
+  const lines: string[] = []
+  const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')
+
+  lines.push("# HELP redirect_bucket_clicks Redirect clicks per time bucket and dimension")
+  lines.push("# TYPE redirect_bucket_clicks gauge")
+
+  for (const [bucket, dimension, value, clicks] of flattenRedirectStats(stats)) {
+    const labels = [
+      `slug="${escape(stats.slug)}"`,
+      `granularity="${stats.granularity}"`,
+      `bucket="${bucket}"`,
+      `dimension="${dimension}"`,
+      ...(value ? [`value="${escape(value)}"`] : [])
+    ]
+    lines.push(`redirect_bucket_clicks{${labels.join(",")}} ${clicks}`)
+  }
+
+  return lines.join("\n")
+}
+
 /**
  * Response format handler - centralizes the format switching logic
  */
@@ -82,6 +154,7 @@ export function handleResponseFormat(
     yaml?: () => string
     prometheus?: () => string
     text?: () => string
+    csv?: () => string
   }
 ): unknown {
   const query = getQuery(event)
@@ -116,6 +189,13 @@ export function handleResponseFormat(
       setHeader(event, "content-type", "text/plain")
       return supportedFormats.text()
 
+    case "csv":
+      if (!supportedFormats.csv) {
+        throw createApiError(400, "CSV format not supported for this endpoint")
+      }
+      setHeader(event, "content-type", "text/csv")
+      return supportedFormats.csv()
+
     default: {
       const supported = Object.keys(supportedFormats).join(", ")
       throw createApiError(400, `Unsupported format: ${format}. Supported formats: ${supported}`)
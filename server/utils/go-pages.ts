@@ -0,0 +1,177 @@
+import type { H3Event } from "h3"
+import { setHeaders, setResponseStatus } from "h3"
+import type { RedirectRecord } from "./redirects"
+
+/**
+ * Content for a server-rendered /go page
+ */
+export interface GoPageContent {
+  /** Document title (suffixed with "@ dave.io") */
+  title: string
+  /** Alert heading */
+  heading: string
+  /** Alert body text */
+  message: string
+  /** Alert colour and icon */
+  tone: "error" | "info"
+  /** Labelled values listed under the alert; http(s) values become links */
+  details?: { label: string; value: string }[]
+  /** Primary button shown before "Back to Home" */
+  action?: { label: string; href: string }
+  /** Open Graph (og:*) and Twitter card (twitter:*) meta tags */
+  meta?: Record<string, string>
+}
+
+// Catppuccin Mocha palette, matching the Nuxt pages
+const MOCHA = {
+  base: "#1e1e2e",
+  mantle: "#181825",
+  crust: "#11111b",
+  surface0: "#313244",
+  surface1: "#45475a",
+  surface2: "#585b70",
+  text: "#cdd6f4",
+  subtext0: "#a6adc8",
+  red: "#f38ba8",
+  blue: "#89b4fa",
+  pink: "#f5c2e7",
+  mauve: "#cba6f7"
+}
+
+/**
+ * Escape text for safe inclusion in HTML element content and attributes
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#x27;")
+}
+
+/**
+ * Whether a value is safe to use as a link target
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value)
+    return protocol === "http:" || protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Render a self-contained /go page styled like GoContent.vue
+ * Everything is inline so it works under the strict CSP applied to /go routes
+ */
+export function renderGoPage(content: GoPageContent): string {
+  const accent = content.tone === "error" ? MOCHA.red : MOCHA.blue
+  const icon = content.tone === "error" ? "💀" : "🔗"
+
+  const meta = Object.entries(content.meta ?? {})
+    .map(([key, value]) => {
+      const attribute = key.startsWith("og:") ? "property" : "name"
+      return `<meta ${attribute}="${escapeHtml(key)}" content="${escapeHtml(value)}">`
+    })
+    .join("\n")
+
+  const details = (content.details ?? [])
+    .map(({ label, value }) => {
+      const rendered = isHttpUrl(value)
+        ? `<a href="${escapeHtml(value)}" rel="noopener noreferrer nofollow">${escapeHtml(value)}</a>`
+        : escapeHtml(value)
+      return `<dt>${escapeHtml(label)}</dt><dd>${rendered}</dd>`
+    })
+    .join("")
+
+  const action =
+    content.action && isHttpUrl(content.action.href)
+      ? `<a class="button action" href="${escapeHtml(content.action.href)}" rel="noopener noreferrer nofollow">${escapeHtml(content.action.label)}</a>`
+      : ""
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(content.title)} @ dave.io</title>
+${meta}
+<style>
+body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;padding:3rem 1rem;box-sizing:border-box;background:linear-gradient(135deg,${MOCHA.base},${MOCHA.mantle},${MOCHA.base});color:${MOCHA.text};font-family:system-ui,-apple-system,"Segoe UI",sans-serif}
+.window{width:100%;max-width:56rem;background:${MOCHA.surface0}80;border:1px solid ${MOCHA.surface2};border-radius:.5rem;box-shadow:0 25px 50px -12px #000a}
+.header{display:flex;align-items:center;padding:.5rem 1rem;background:${MOCHA.surface1}f2;border-bottom:1px solid ${MOCHA.surface2};border-radius:.5rem .5rem 0 0;font:.875rem ui-monospace,monospace;color:${MOCHA.subtext0}}
+.dot{width:.75rem;height:.75rem;border-radius:50%;margin-right:.5rem;display:inline-block}
+.title{flex:1;text-align:center}
+.content{padding:2rem;text-align:center}
+.alert{display:flex;gap:.75rem;text-align:left;border:2px solid ${accent};background:${MOCHA.surface1}99;border-radius:.5rem;padding:1rem}
+.alert h1{color:${accent};font-size:1.25rem;margin:0}
+.alert p{color:${MOCHA.subtext0};margin:.25rem 0 0;line-height:1.6;word-break:break-word}
+dl{display:grid;grid-template-columns:max-content 1fr;gap:.5rem 1rem;margin:1.5rem 0 0;text-align:left}
+dt{color:${MOCHA.subtext0};font-weight:600}
+dd{margin:0;word-break:break-all}
+dd a{color:${MOCHA.blue}}
+.buttons{display:flex;flex-wrap:wrap;gap:1rem;justify-content:center;margin-top:2rem}
+.button{display:inline-block;padding:1rem 1.5rem;font-size:1.25rem;font-weight:600;color:${MOCHA.crust};background:linear-gradient(to right,${MOCHA.pink},${MOCHA.mauve});border-radius:.5rem;text-decoration:none}
+.action{background:${MOCHA.blue}}
+</style>
+</head>
+<body>
+<main class="window">
+<div class="header"><span class="dot" style="background:${MOCHA.red}"></span><span class="dot" style="background:#f9e2af"></span><span class="dot" style="background:#a6e3a1"></span><span class="title">dave.io/go</span></div>
+<div class="content">
+<div class="alert"><span aria-hidden="true">${icon}</span><div><h1>${escapeHtml(content.heading)}</h1><p>${escapeHtml(content.message)}</p></div></div>
+${details ? `<dl>${details}</dl>` : ""}
+<div class="buttons">${action}<a class="button" href="/">🏠 Back to Home</a></div>
+</div>
+</main>
+</body>
+</html>`
+}
+
+/**
+ * Build the preview page for a redirect, with card meta so pasted short links unfurl
+ */
+export function getRedirectPreviewContent(redirect: RedirectRecord): GoPageContent {
+  const shortUrl = `https://dave.io/go/${redirect.slug}`
+  const title = redirect.title || new URL(redirect.url).hostname
+  const description = redirect.description || `Short link to ${redirect.url}`
+
+  return {
+    title: `Preview: ${title}`,
+    heading: title,
+    message: description,
+    tone: "info",
+    details: [
+      { label: "Short link", value: shortUrl },
+      { label: "Destination", value: redirect.url },
+      { label: "Clicks", value: redirect.clicks.toLocaleString("en-GB") }
+    ],
+    action: { label: "🔗 Continue", href: redirect.url },
+    meta: {
+      "og:type": "website",
+      "og:url": shortUrl,
+      "og:title": title,
+      "og:description": description,
+      "og:site_name": "dave.io",
+      "twitter:card": "summary",
+      "twitter:title": title,
+      "twitter:description": description
+    }
+  }
+}
+
+/**
+ * Send a rendered /go page with the given status code
+ * Relaxes the /go CSP just enough for the inline styles the page uses
+ */
+export function sendGoPage(event: H3Event, statusCode: number, content: GoPageContent): string {
+  setResponseStatus(event, statusCode)
+  setHeaders(event, {
+    "Content-Type": "text/html; charset=utf-8",
+    "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors 'none'"
+  })
+  return renderGoPage(content)
+}
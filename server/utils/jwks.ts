@@ -0,0 +1,195 @@
+import type { JWK } from "jose"
+
+/**
+ * Asymmetric algorithms tokens may be signed with (HS256 tokens use the shared secret instead)
+ */
+export const JWT_ASYMMETRIC_ALGORITHMS = ["ES256", "EdDSA"] as const
+
+export type JWTAsymmetricAlgorithm = (typeof JWT_ASYMMETRIC_ALGORITHMS)[number]
+
+/**
+ * Lifecycle of a signing key: primary signs new tokens, verify-only still verifies
+ * tokens issued before a rotation, retired keys are rejected and no longer published
+ */
+export type JWTKeyStatus = "primary" | "verify-only" | "retired"
+
+/**
+ * Published signing key with its lifecycle metadata
+ */
+export interface JWTSigningKey {
+  kid: string
+  alg: JWTAsymmetricAlgorithm
+  status: JWTKeyStatus
+  jwk: JWK
+  created_at?: string
+  retire_at?: string
+}
+
+/**
+ * Looks up the public key for a token's kid header, or null if the kid is unknown or retired
+ */
+export type JWTPublicKeyResolver = (kid: string) => Promise<JWK | null>
+
+/**
+ * Fields stored per key ID (field -> KV key suffix); only public key members are ever stored
+ */
+const JWK_FIELDS = {
+  kty: "kty",
+  crv: "crv",
+  x: "x",
+  y: "y",
+  alg: "alg",
+  status: "status",
+  created_at: "created-at",
+  retire_at: "retire-at"
+} as const
+
+type JWKField = keyof typeof JWK_FIELDS
+
+const JWT_KEY_STATUSES: JWTKeyStatus[] = ["primary", "verify-only", "retired"]
+
+/**
+ * KV key holding a single field of a signing key
+ */
+export function getJWKKey(kid: string, field: JWKField): string {
+  return `auth:jwk:${kid}:${JWK_FIELDS[field]}`
+}
+
+/**
+ * Whether an algorithm is one of the supported asymmetric signing algorithms
+ */
+export function isAsymmetricAlgorithm(alg: unknown): alg is JWTAsymmetricAlgorithm {
+  return JWT_ASYMMETRIC_ALGORITHMS.includes(alg as JWTAsymmetricAlgorithm)
+}
+
+/**
+ * Flat KV entries for storing a signing key
+ */
+export function getSigningKeyEntries(key: JWTSigningKey): [string, string][] {
+  const values: Record<JWKField, string | undefined> = {
+    kty: key.jwk.kty,
+    crv: key.jwk.crv,
+    x: key.jwk.x,
+    y: key.jwk.y,
+    alg: key.alg,
+    status: key.status,
+    created_at: key.created_at,
+    retire_at: key.retire_at
+  }
+
+  return (Object.keys(JWK_FIELDS) as JWKField[]).flatMap((field) => {
+    const value = values[field]
+    return value ? [[getJWKKey(key.kid, field), value] as [string, string]] : []
+  })
+}
+
+/**
+ * Load a signing key, or null if none is stored under the key ID
+ * Keys without a recognised status are treated as verify-only
+ */
+export async function getSigningKey(kv: KVNamespace, kid: string): Promise<JWTSigningKey | null> {
+  const fields = Object.keys(JWK_FIELDS) as JWKField[]
+  const values = await Promise.all(fields.map((field) => kv.get(getJWKKey(kid, field))))
+  const stored = Object.fromEntries(fields.map((field, index) => [field, values[index] ?? undefined])) as Record<
+    JWKField,
+    string | undefined
+  >
+
+  if (!stored.kty || !stored.crv || !stored.x || !isAsymmetricAlgorithm(stored.alg)) {
+    return null
+  }
+
+  return {
+    kid,
+    alg: stored.alg,
+    status: JWT_KEY_STATUSES.includes(stored.status as JWTKeyStatus) ? (stored.status as JWTKeyStatus) : "verify-only",
+    jwk: {
+      kty: stored.kty,
+      crv: stored.crv,
+      x: stored.x,
+      ...(stored.y ? { y: stored.y } : {}),
+      kid,
+      alg: stored.alg,
+      use: "sig"
+    },
+    ...(stored.created_at ? { created_at: stored.created_at } : {}),
+    ...(stored.retire_at ? { retire_at: stored.retire_at } : {})
+  }
+}
+
+/**
+ * Status of a key right now; verify-only keys retire themselves once their grace period ends
+ */
+export function getEffectiveKeyStatus(key: JWTSigningKey, now = Date.now()): JWTKeyStatus {
+  if (key.status === "verify-only" && key.retire_at && new Date(key.retire_at).getTime() <= now) {
+    return "retired"
+  }
+  return key.status
+}
+
+/**
+ * List every stored signing key, ordered by key ID
+ */
+export async function listSigningKeys(kv: KVNamespace): Promise<JWTSigningKey[]> {
+  const kids = new Set<string>()
+  let cursor: string | undefined
+
+  do {
+    const listed = await kv.list({ prefix: "auth:jwk:", cursor })
+    for (const { name } of listed.keys) {
+      const kid = name.split(":")[2]
+      if (kid) {
+        kids.add(kid)
+      }
+    }
+    cursor = listed.list_complete ? undefined : listed.cursor
+  } while (cursor)
+
+  const keys = await Promise.all([...kids].sort().map((kid) => getSigningKey(kv, kid)))
+  return keys.filter((key): key is JWTSigningKey => key !== null)
+}
+
+/**
+ * Public JWKs of every key that still verifies tokens
+ */
+export async function listPublicJWKs(kv: KVNamespace, now = Date.now()): Promise<JWK[]> {
+  const keys = await listSigningKeys(kv)
+  return keys.filter((key) => getEffectiveKeyStatus(key, now) !== "retired").map((key) => key.jwk)
+}
+
+/**
+ * Public key resolver backed by the keys published in KV
+ */
+export function createKVPublicKeyResolver(kv: KVNamespace): JWTPublicKeyResolver {
+  return async (kid) => {
+    const key = await getSigningKey(kv, kid)
+    return key && getEffectiveKeyStatus(key) !== "retired" ? key.jwk : null
+  }
+}
+
+/**
+ * Work out the key changes for a rotation: the new key becomes primary, the previous primary
+ * stays verify-only for the grace period, and keys whose grace period has ended are retired
+ * Returns only the keys whose stored fields change
+ */
+export function planKeyRotation(
+  keys: JWTSigningKey[],
+  newKey: Omit<JWTSigningKey, "status">,
+  options: { graceSeconds: number; now?: number }
+): JWTSigningKey[] {
+  const now = options.now ?? Date.now()
+  const retireAt = new Date(now + options.graceSeconds * 1000).toISOString()
+
+  const changed = keys.flatMap((key): JWTSigningKey[] => {
+    // Verify-only keys without a retirement date are old keys too
+    if (key.status === "primary" || (key.status === "verify-only" && !key.retire_at)) {
+      return [{ ...key, status: "verify-only", retire_at: retireAt }]
+    }
+    if (key.status === "verify-only" && getEffectiveKeyStatus(key, now) === "retired") {
+      return [{ ...key, status: "retired" }]
+    }
+    return []
+  })
+
+  return [...changed, { ...newKey, status: "primary" }]
+}
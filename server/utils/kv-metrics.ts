@@ -169,6 +169,21 @@ function classifyVisitor(userAgent: string): "human" | "bot" | "unknown" {
   return "unknown"
 }
 
+/**
+ * Classify user agent by platform for redirect targeting
+ */
+export function classifyPlatform(userAgent: string): "ios" | "android" | "desktop" {
+  if (/iphone|ipad|ipod/i.test(userAgent)) {
+    return "ios"
+  }
+
+  if (/android/i.test(userAgent)) {
+    return "android"
+  }
+
+  return "desktop"
+}
+
 /**
  * Update metrics for API requests using simple KV keys
  */
@@ -248,7 +263,8 @@ export async function updateRedirectMetrics(
   kv: KVNamespace,
   slug: string,
   statusCode: number,
-  userAgent?: string
+  userAgent?: string,
+  clickInfo?: RedirectClickInfo
 ): Promise<void> {
   try {
     const success = statusCode < 400
@@ -302,6 +318,21 @@ export async function updateRedirectMetrics(
     operations.push(incrementKVMetric(kv, `metrics:redirect:${slug}:group:${statusGroup}`))
     operations.push(incrementKVMetric(kv, `metrics:redirect:${slug}:status:${statusCode}`))
 
+    // Update time-bucketed click counters for successful redirects
+    if (success && clickInfo) {
+      operations.push(...buildRedirectBucketOperations(kv, slug, clickInfo, now))
+    }
+
+    // Record which targeting rule chose the destination
+    if (success && clickInfo?.rule) {
+      operations.push(incrementKVMetric(kv, `metrics:redirect:${slug}:rule:${clickInfo.rule}`))
+    }
+
+    // Record which A/B variant the visitor was sent to
+    if (success && clickInfo?.variant !== undefined) {
+      operations.push(incrementKVMetric(kv, `metrics:redirect:${slug}:variant:${clickInfo.variant}`))
+    }
+
     // Execute all operations in parallel
     await Promise.all(operations)
   } catch (error) {
@@ -317,10 +348,168 @@ export function updateRedirectMetricsAsync(
   kv: KVNamespace,
   slug: string,
   statusCode: number,
-  userAgent?: string
+  userAgent?: string,
+  clickInfo?: RedirectClickInfo
 ): void {
   // Fire and forget
-  void updateRedirectMetrics(kv, slug, statusCode, userAgent)
+  void updateRedirectMetrics(kv, slug, statusCode, userAgent, clickInfo)
+}
+
+/**
+ * Request details used to break down redirect clicks
+ */
+interface RedirectClickInfo {
+  country: string
+  datacenter: string
+  referrer?: string
+  /** Targeting rule that matched (rule index or "fallback") */
+  rule?: string
+  /** A/B variant index the visitor was sent to */
+  variant?: number
+}
+
+/**
+ * Time bucket granularity for redirect click analytics
+ */
+type RedirectBucketGranularity = "hourly" | "daily"
+
+/**
+ * A single time bucket of redirect clicks with its breakdowns
+ */
+interface RedirectClickBucket {
+  bucket: string
+  clicks: number
+  countries: Record<string, number>
+  datacenters: Record<string, number>
+  referrers: Record<string, number>
+}
+
+/**
+ * How long time-bucketed redirect counters are kept, in seconds
+ */
+export const REDIRECT_BUCKET_RETENTION: Record<RedirectBucketGranularity, number> = {
+  hourly: 31 * 86400,
+  daily: 400 * 86400
+}
+
+/**
+ * Get the UTC bucket identifier for a time (YYYY-MM-DDTHH hourly, YYYY-MM-DD daily)
+ */
+export function getRedirectBucket(granularity: RedirectBucketGranularity, time: number | Date): string {
+  const iso = new Date(time).toISOString()
+  return granularity === "hourly" ? iso.substring(0, 13) : iso.substring(0, 10)
+}
+
+/**
+ * Reduce a Referer header to a host name, or "direct" when absent or invalid
+ */
+export function getReferrerHost(referrer?: string): string {
+  if (!referrer) {
+    return "direct"
+  }
+
+  try {
+    return new URL(referrer).hostname.toLowerCase() || "direct"
+  } catch {
+    return "direct"
+  }
+}
+
+/**
+ * Increment a time-bucketed counter with an expiry
+ * The count is mirrored into KV metadata so stats can be read from list() alone
+ */
+async function incrementRedirectBucketCounter(kv: KVNamespace, key: string, ttl: number): Promise<void> {
+  try {
+    const count = (await rawKVGet(kv, key).then((v) => Number.parseInt(v || "0"))) + 1
+    await kv.put(key, String(count), { expirationTtl: ttl, metadata: { count } })
+  } catch (error) {
+    // trunk-ignore(semgrep/javascript.lang.security.audit.unsafe-formatstring.unsafe-formatstring): Safe string template
+    console.error(`Failed to increment redirect bucket ${key}:`, error)
+  }
+}
+
+/**
+ * Build the hourly and daily bucket increments for a redirect click
+ */
+function buildRedirectBucketOperations(
+  kv: KVNamespace,
+  slug: string,
+  clickInfo: RedirectClickInfo,
+  now: number
+): Promise<void>[] {
+  const operations: Promise<void>[] = []
+  const referrer = getReferrerHost(clickInfo.referrer)
+
+  for (const granularity of Object.keys(REDIRECT_BUCKET_RETENTION) as RedirectBucketGranularity[]) {
+    const prefix = `metrics:redirect:${slug}:${granularity}:${getRedirectBucket(granularity, now)}`
+    const ttl = REDIRECT_BUCKET_RETENTION[granularity]
+
+    operations.push(incrementRedirectBucketCounter(kv, `${prefix}:clicks`, ttl))
+    operations.push(incrementRedirectBucketCounter(kv, `${prefix}:country:${clickInfo.country || "unknown"}`, ttl))
+    operations.push(
+      incrementRedirectBucketCounter(kv, `${prefix}:datacenter:${clickInfo.datacenter || "unknown"}`, ttl)
+    )
+    operations.push(incrementRedirectBucketCounter(kv, `${prefix}:referrer:${referrer}`, ttl))
+  }
+
+  return operations
+}
+
+/**
+ * Read time-bucketed click counters for a redirect between two times (inclusive)
+ */
+export async function getRedirectClickBuckets(
+  kv: KVNamespace,
+  slug: string,
+  granularity: RedirectBucketGranularity,
+  from: Date,
+  to: Date
+): Promise<RedirectClickBucket[]> {
+  const prefix = `metrics:redirect:${slug}:${granularity}:`
+  const fromBucket = getRedirectBucket(granularity, from)
+  const toBucket = getRedirectBucket(granularity, to)
+
+  // Narrow the listing to the bucket prefix shared by both ends of the range
+  let shared = 0
+  while (shared < fromBucket.length && fromBucket[shared] === toBucket[shared]) {
+    shared++
+  }
+  const listPrefix = `${prefix}${fromBucket.substring(0, shared)}`
+
+  const buckets = new Map<string, RedirectClickBucket>()
+  let cursor: string | undefined
+
+  do {
+    const listed = await kv.list<{ count?: number }>({ prefix: listPrefix, cursor })
+
+    for (const key of listed.keys) {
+      const [bucket, dimension, ...rest] = key.name.substring(prefix.length).split(":")
+      if (!bucket || !dimension || bucket < fromBucket || bucket > toBucket) {
+        continue
+      }
+
+      const entry = buckets.get(bucket) || { bucket, clicks: 0, countries: {}, datacenters: {}, referrers: {} }
+      const count = key.metadata?.count ?? 0
+      const value = rest.join(":")
+
+      if (dimension === "clicks") {
+        entry.clicks = count
+      } else if (dimension === "country") {
+        entry.countries[value] = count
+      } else if (dimension === "datacenter") {
+        entry.datacenters[value] = count
+      } else if (dimension === "referrer") {
+        entry.referrers[value] = count
+      }
+
+      buckets.set(bucket, entry)
+    }
+
+    cursor = listed.list_complete ? undefined : listed.cursor
+  } while (cursor)
+
+  return [...buckets.values()].sort((a, b) => a.bucket.localeCompare(b.bucket))
 }
 
 /**
@@ -388,4 +577,13 @@ export function isBotUserAgent(userAgent: string): boolean {
   return classifyVisitor(userAgent) === "bot"
 }
 
-export type { KVCounterEntry }
+/**
+ * Helper to detect link preview fetchers (chat apps and social networks unfurling a URL)
+ */
+export function isLinkUnfurlerUserAgent(userAgent: string): boolean {
+  return /slackbot|twitterbot|facebookexternalhit|discordbot|linkedinbot|telegrambot|whatsapp|mastodon|bluesky|cardyb|skypeuripreview|redditbot|embedly|iframely/i.test(
+    userAgent
+  )
+}
+
+export type { KVCounterEntry, RedirectBucketGranularity, RedirectClickBucket, RedirectClickInfo }
@@ -0,0 +1,112 @@
+import { hashAPIKey } from "./api-keys"
+import { explainPermission } from "./permissions"
+
+/**
+ * Prefix marking OAuth client secrets so they're easy to spot in logs and secret scanners
+ */
+export const CLIENT_SECRET_PREFIX = "dcs_"
+
+/**
+ * Lifetime of tokens issued by the client_credentials grant; services fetch a new one when it runs out
+ */
+export const CLIENT_TOKEN_TTL_SECONDS = 60 * 60
+
+/**
+ * OAuth2 clients for service integrations; secrets are stored as SHA-256 hashes only
+ * scopes is a JSON array of the grants the client may request, including deny rules
+ */
+export const OAUTH_CLIENTS_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS oauth_clients (
+    client_id TEXT PRIMARY KEY,
+    secret_hash TEXT NOT NULL,
+    name TEXT,
+    scopes TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    revoked_at TEXT
+  )
+`
+
+/**
+ * Registered OAuth client, without its secret hash
+ */
+export interface OAuthClientRecord {
+  clientId: string
+  name?: string
+  scopes: string[]
+  createdAt: string
+  revokedAt?: string
+}
+
+/**
+ * Generate a client ID: readable in logs, not secret
+ */
+export function generateClientId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8))
+  return `client_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`
+}
+
+/**
+ * Generate a client secret: the prefix followed by 32 random bytes in hex
+ */
+export function generateClientSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return `${CLIENT_SECRET_PREFIX}${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`
+}
+
+/**
+ * Map an oauth_clients row to a record
+ */
+export function mapOAuthClientRow(row: Record<string, unknown>): OAuthClientRecord {
+  let scopes: unknown
+  try {
+    scopes = JSON.parse(String(row.scopes))
+  } catch {
+    scopes = []
+  }
+
+  return {
+    clientId: row.client_id as string,
+    scopes: Array.isArray(scopes) ? scopes.filter((s): s is string => typeof s === "string") : [],
+    createdAt: row.created_at as string,
+    ...(row.name ? { name: row.name as string } : {}),
+    ...(row.revoked_at ? { revokedAt: row.revoked_at as string } : {})
+  }
+}
+
+/**
+ * Look up a client and check its secret; unknown clients, wrong secrets and revoked clients all return null
+ */
+export async function authenticateOAuthClient(
+  db: D1Database,
+  clientId: string,
+  secret: string
+): Promise<OAuthClientRecord | null> {
+  const row = await db
+    .prepare("SELECT * FROM oauth_clients WHERE client_id = ?")
+    .bind(clientId)
+    .first<Record<string, unknown>>()
+  if (!row || row.secret_hash !== (await hashAPIKey(secret))) {
+    return null
+  }
+
+  const record = mapOAuthClientRow(row)
+  return record.revokedAt ? null : record
+}
+
+/**
+ * Work out the permissions a token should carry from a space-separated scope request
+ * No request grants everything the client is allowed. Each requested scope must be within the
+ * client's grants, and the client's deny rules always carry over; returns null for any scope it can't have
+ */
+export function resolveClientPermissions(allowed: string[], requested?: string): string[] | null {
+  const scopes = requested?.split(" ").filter(Boolean) ?? []
+  if (scopes.length === 0) {
+    return allowed
+  }
+
+  if (scopes.some((scope) => scope.startsWith("!") || !explainPermission(allowed, scope).allowed)) {
+    return null
+  }
+
+  return [...new Set([...scopes, ...allowed.filter((grant) => grant.startsWith("!"))])]
+}
@@ -0,0 +1,59 @@
+/**
+ * Outcome of checking a resource against a list of grants, with the grant that decided it
+ */
+export interface PermissionExplanation {
+  allowed: boolean
+  grant: string | null // Deciding grant, or null when nothing matched
+  denied: boolean // True when a deny rule blocked the resource
+}
+
+/**
+ * Permissions the API's endpoints check, used to expand a token's grants into concrete scopes
+ */
+export const ENDPOINT_SCOPES = ["admin", "ai:alt", "ai:social", "ai:word", "api:redirects", "api:token", "dashboard"]
+
+/**
+ * Grants that allow every resource
+ */
+const SUPERUSER_GRANTS = ["*", "admin"]
+
+/**
+ * Whether a grant pattern covers a resource, ignoring any deny prefix
+ * Grants cover their own resource and everything below it (api covers api:token:create),
+ * and a * segment matches any single segment (api:*:read covers api:token:read)
+ */
+export function matchesPermission(pattern: string, resource: string): boolean {
+  const grant = pattern.startsWith("!") ? pattern.slice(1) : pattern
+  const grantParts = grant.split(":")
+  const resourceParts = resource.split(":")
+
+  if (grantParts.length > resourceParts.length) {
+    return false
+  }
+
+  return grantParts.every((part, index) => part === "*" || part === resourceParts[index])
+}
+
+/**
+ * Whether a grant (allow or deny) applies to a resource; * and admin allow everything
+ */
+export function grantApplies(grant: string, resource: string): boolean {
+  if (!grant.startsWith("!") && SUPERUSER_GRANTS.includes(grant)) {
+    return true
+  }
+  return matchesPermission(grant, resource)
+}
+
+/**
+ * Work out whether grants allow a resource and which grant decided it
+ * Deny rules (!ai:social) beat every allow, however broad; otherwise the first matching grant allows
+ */
+export function explainPermission(permissions: string[], resource: string): PermissionExplanation {
+  const deny = permissions.find((grant) => grant.startsWith("!") && grantApplies(grant, resource))
+  if (deny) {
+    return { allowed: false, grant: deny, denied: true }
+  }
+
+  const allow = permissions.find((grant) => !grant.startsWith("!") && grantApplies(grant, resource))
+  return { allowed: Boolean(allow), grant: allow ?? null, denied: false }
+}
@@ -0,0 +1,551 @@
+/**
+ * QR code error correction level
+ */
+export type QRErrorCorrection = "L" | "M" | "Q" | "H"
+
+/**
+ * Encoded QR code as a square grid of modules (true = dark)
+ */
+export interface QRCode {
+  version: number
+  size: number
+  mask: number
+  modules: boolean[][]
+}
+
+// Error correction codewords per block and number of blocks, indexed by version (ISO/IEC 18004 table 9)
+const ECC_CODEWORDS_PER_BLOCK: Record<QRErrorCorrection, number[]> = {
+  L: [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30
+  ],
+  M: [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28
+  ],
+  Q: [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30
+  ],
+  H: [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30,
+    30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30
+  ]
+}
+
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QRErrorCorrection, number[]> = {
+  L: [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19,
+    19, 20, 21, 22, 24, 25
+  ],
+  M: [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31,
+    33, 35, 37, 38, 40, 43, 45, 47, 49
+  ],
+  Q: [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43,
+    45, 48, 51, 53, 56, 59, 62, 65, 68
+  ],
+  H: [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48,
+    51, 54, 57, 60, 63, 66, 70, 74, 77, 81
+  ]
+}
+
+// Two-bit error correction indicator used in the format information
+const FORMAT_BITS: Record<QRErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+/**
+ * Total data and error correction bits available in a version, excluding function patterns
+ */
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) {
+      result -= 36
+    }
+  }
+  return result
+}
+
+/**
+ * Number of 8-bit data codewords available for a version and error correction level
+ */
+function getNumDataCodewords(version: number, ecc: QRErrorCorrection): number {
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ecc][version]! * NUM_ERROR_CORRECTION_BLOCKS[ecc][version]!
+  )
+}
+
+/**
+ * Multiply two elements of GF(2^8) modulo the QR polynomial 0x11D
+ */
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+/**
+ * Reed-Solomon generator polynomial coefficients for a given degree
+ */
+function reedSolomonDivisor(degree: number): number[] {
+  const result = Array.from({ length: degree }, () => 0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j]!, root)
+      if (j + 1 < result.length) {
+        result[j]! ^= result[j + 1]!
+      }
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+/**
+ * Reed-Solomon error correction codewords for a block of data
+ */
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = Array.from({ length: divisor.length }, () => 0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i]! ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+/**
+ * Build the final codeword sequence: data split into blocks, error correction added, then interleaved
+ */
+function addEccAndInterleave(data: number[], version: number, ecc: QRErrorCorrection): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecc][version]!
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecc][version]!
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = reedSolomonDivisor(blockEccLength)
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const length = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1)
+    const block = data.slice(k, k + length)
+    k += length
+    const eccBytes = reedSolomonRemainder(block, divisor)
+    if (i < numShortBlocks) {
+      block.push(0) // Placeholder so short and long blocks line up for interleaving
+    }
+    blocks.push([...block, ...eccBytes])
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]!)
+      }
+    })
+  }
+  return result
+}
+
+/**
+ * Centre positions of alignment patterns for a version
+ */
+function getAlignmentPatternPositions(version: number, size: number): number[] {
+  if (version === 1) {
+    return []
+  }
+  const numAlign = Math.floor(version / 7) + 2
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2
+  const result = [6]
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos)
+  }
+  return result
+}
+
+/**
+ * Data mask condition for each of the eight mask patterns
+ */
+function isMasked(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0
+    case 1:
+      return y % 2 === 0
+    case 2:
+      return x % 3 === 0
+    case 3:
+      return (x + y) % 3 === 0
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  }
+}
+
+/**
+ * Penalty score used to choose the mask producing the most readable symbol
+ */
+function getPenaltyScore(modules: boolean[][]): number {
+  const size = modules.length
+  let penalty = 0
+  let dark = 0
+
+  const finderLike = [
+    [true, false, true, true, true, false, true, false, false, false, false],
+    [false, false, false, false, true, false, true, true, true, false, true]
+  ]
+
+  for (let a = 0; a < size; a++) {
+    for (const horizontal of [true, false]) {
+      const at = (b: number) => (horizontal ? modules[a]![b]! : modules[b]![a]!)
+
+      // Runs of five or more same-coloured modules
+      let runLength = 1
+      for (let b = 1; b <= size; b++) {
+        if (b < size && at(b) === at(b - 1)) {
+          runLength++
+        } else {
+          if (runLength >= 5) {
+            penalty += runLength - 2
+          }
+          runLength = 1
+        }
+      }
+
+      // Patterns resembling a finder
+      for (let b = 0; b + 11 <= size; b++) {
+        if (finderLike.some((pattern) => pattern.every((value, i) => at(b + i) === value))) {
+          penalty += 40
+        }
+      }
+    }
+
+    for (let b = 0; b < size; b++) {
+      if (modules[a]![b]) {
+        dark++
+      }
+      // 2x2 blocks of the same colour
+      if (a + 1 < size && b + 1 < size) {
+        const colour = modules[a]![b]
+        if (colour === modules[a]![b + 1] && colour === modules[a + 1]![b] && colour === modules[a + 1]![b + 1]) {
+          penalty += 3
+        }
+      }
+    }
+  }
+
+  // Imbalance between dark and light modules
+  const total = size * size
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+  return penalty
+}
+
+/**
+ * Encode text as a QR code using byte mode and the smallest version that fits
+ * mask can be fixed (0-7); otherwise the mask with the lowest penalty is chosen
+ */
+export function encodeQR(text: string, ecc: QRErrorCorrection = "M", mask?: number): QRCode {
+  const bytes = [...new TextEncoder().encode(text)]
+
+  let version = 1
+  for (; version <= 40; version++) {
+    const countBits = version <= 9 ? 8 : 16
+    if (4 + countBits + bytes.length * 8 <= getNumDataCodewords(version, ecc) * 8) {
+      break
+    }
+  }
+  if (version > 40) {
+    throw new Error("Data too long for a QR code")
+  }
+
+  // Byte mode indicator, character count and data, then terminator and padding
+  const bits: number[] = []
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1)
+    }
+  }
+  appendBits(0b0100, 4)
+  appendBits(bytes.length, version <= 9 ? 8 : 16)
+  for (const byte of bytes) {
+    appendBits(byte, 8)
+  }
+  const capacityBits = getNumDataCodewords(version, ecc) * 8
+  appendBits(0, Math.min(4, capacityBits - bits.length))
+  appendBits(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8)
+  }
+
+  const dataCodewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    dataCodewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  const codewords = addEccAndInterleave(dataCodewords, version, ecc)
+
+  const size = version * 4 + 17
+  const modules = Array.from({ length: size }, () => Array.from({ length: size }, () => false))
+  const isFunction = Array.from({ length: size }, () => Array.from({ length: size }, () => false))
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y]![x] = dark
+    isFunction[y]![x] = true
+  }
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0)
+    setFunction(i, 6, i % 2 === 0)
+  }
+
+  // Finder patterns with separators
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4]
+  ] as const) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          setFunction(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+  }
+
+  // Alignment patterns, skipping those that would overlap finders
+  const alignment = getAlignmentPatternPositions(version, size)
+  alignment.forEach((cy, i) => {
+    alignment.forEach((cx, j) => {
+      const last = alignment.length - 1
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    })
+  })
+
+  const drawFormatBits = (maskPattern: number) => {
+    const data = (FORMAT_BITS[ecc] << 3) | maskPattern
+    let remainder = data
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    }
+    const format = ((data << 10) | remainder) ^ 0x5412
+    const bit = (i: number) => ((format >>> i) & 1) !== 0
+
+    for (let i = 0; i <= 5; i++) {
+      setFunction(8, i, bit(i))
+    }
+    setFunction(8, 7, bit(6))
+    setFunction(8, 8, bit(7))
+    setFunction(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) {
+      setFunction(14 - i, 8, bit(i))
+    }
+    for (let i = 0; i < 8; i++) {
+      setFunction(size - 1 - i, 8, bit(i))
+    }
+    for (let i = 8; i < 15; i++) {
+      setFunction(8, size - 15 + i, bit(i))
+    }
+    setFunction(8, size - 8, true) // Always-dark module
+  }
+
+  // Reserve format areas before placing data
+  drawFormatBits(0)
+
+  // Version information for version 7 and above
+  if (version >= 7) {
+    let remainder = version
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    }
+    const versionBits = (version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const dark = ((versionBits >>> i) & 1) !== 0
+      const a = size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      setFunction(a, b, dark)
+      setFunction(b, a, dark)
+    }
+  }
+
+  // Place codewords in the zigzag pattern, right to left in two-column strips
+  let bitIndex = 0
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5
+    }
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const upward = ((right + 1) & 2) === 0
+        const y = upward ? size - 1 - vertical : vertical
+        if (!isFunction[y]![x] && bitIndex < codewords.length * 8) {
+          modules[y]![x] = ((codewords[bitIndex >>> 3]! >>> (7 - (bitIndex & 7))) & 1) !== 0
+          bitIndex++
+        }
+      }
+    }
+  }
+
+  const applyMask = (maskPattern: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y]![x] && isMasked(maskPattern, x, y)) {
+          modules[y]![x] = !modules[y]![x]
+        }
+      }
+    }
+  }
+
+  let chosenMask = mask ?? 0
+  if (mask === undefined) {
+    let lowestPenalty = Number.POSITIVE_INFINITY
+    for (let candidate = 0; candidate < 8; candidate++) {
+      applyMask(candidate)
+      drawFormatBits(candidate)
+      const penalty = getPenaltyScore(modules)
+      if (penalty < lowestPenalty) {
+        lowestPenalty = penalty
+        chosenMask = candidate
+      }
+      applyMask(candidate) // XOR again to undo
+    }
+  }
+
+  applyMask(chosenMask)
+  drawFormatBits(chosenMask)
+
+  return { version, size, mask: chosenMask, modules }
+}
+
+/**
+ * Render a QR code as an SVG document
+ * size is the rendered width and height in pixels; margin is the quiet zone in modules
+ */
+export function renderQRCodeSVG(qr: QRCode, size: number, margin: number): string {
+  const dimension = qr.size + margin * 2
+  let path = ""
+
+  // One horizontal segment per run of dark modules keeps the path compact
+  qr.modules.forEach((row, y) => {
+    for (let x = 0; x < qr.size; x++) {
+      if (!row[x]) {
+        continue
+      }
+      const start = x
+      while (x + 1 < qr.size && row[x + 1]) {
+        x++
+      }
+      path += `M${start + margin} ${y + margin}h${x - start + 1}v1h-${x - start + 1}z`
+    }
+  })
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges"><rect width="${dimension}" height="${dimension}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`
+}
+
+// CRC-32 lookup table for PNG chunks
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Build a PNG chunk: length, type, data and CRC
+ */
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  chunk.set(new TextEncoder().encode(type), 4)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+/**
+ * Render a QR code as a 1-bit greyscale PNG
+ * The module scale is the largest whole number that fits within size pixels
+ */
+export async function renderQRCodePNG(qr: QRCode, size: number, margin: number): Promise<Uint8Array> {
+  const dimension = qr.size + margin * 2
+  const scale = Math.max(1, Math.floor(size / dimension))
+  const pixels = dimension * scale
+  const rowBytes = Math.ceil(pixels / 8)
+
+  // Each scanline is a filter byte (0 = none) followed by packed pixels, where 1 is white
+  const raw = new Uint8Array((rowBytes + 1) * pixels)
+  for (let py = 0; py < pixels; py++) {
+    const y = Math.floor(py / scale) - margin
+    const offset = py * (rowBytes + 1) + 1
+    for (let px = 0; px < pixels; px++) {
+      const x = Math.floor(px / scale) - margin
+      const dark = y >= 0 && y < qr.size && x >= 0 && x < qr.size && qr.modules[y]![x]
+      if (!dark) {
+        raw[offset + (px >>> 3)]! |= 0x80 >>> (px & 7)
+      }
+    }
+  }
+
+  const compressed = new Uint8Array(
+    await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate"))).arrayBuffer()
+  )
+
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, pixels)
+  view.setUint32(4, pixels)
+  header.set([1, 0, 0, 0, 0], 8) // Bit depth 1, greyscale, deflate, adaptive filtering, no interlace
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", compressed),
+    pngChunk("IEND", new Uint8Array())
+  ]
+  const png = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    png.set(part, position)
+    position += part.length
+  }
+  return png
+}
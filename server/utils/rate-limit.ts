@@ -0,0 +1,159 @@
+import type { H3Event } from "h3"
+import { authenticateRequest, extractAPIKey, extractToken } from "./auth"
+
+/**
+ * Requests allowed per sliding window
+ */
+export interface RateLimitRule {
+  requests: number
+  windowSeconds: number
+}
+
+/**
+ * Outcome of counting a request against a rate limit
+ */
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  count: number
+  retryAfter: number
+}
+
+/**
+ * Limits by permission pattern, most specific match wins
+ * Overridden per pattern by ratelimit:{pattern}:requests and ratelimit:{pattern}:window-seconds in KV
+ */
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimitRule> = {
+  "ai:*": { requests: 30, windowSeconds: 60 },
+  "oauth:*": { requests: 30, windowSeconds: 60 },
+  "*": { requests: 300, windowSeconds: 60 }
+}
+
+/**
+ * Sliding window counters; each key keeps at most its current and previous window
+ */
+export const RATE_LIMIT_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS rate_limits (
+    key TEXT NOT NULL,
+    window_start INTEGER NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (key, window_start)
+  )
+`
+
+/**
+ * Permission an /api path is protected by (e.g. /api/ai/social -> ai:social, /api/redirects -> api:redirects)
+ * OAuth endpoints are limited as oauth:{endpoint} (/oauth/token -> oauth:token) so client secrets can't be brute-forced
+ */
+export function getRequestPermission(pathname: string): string | null {
+  const [, api, first, second] = pathname.split("?")[0]!.split("/")
+  if (api === "oauth" && first) {
+    return `oauth:${first}`
+  }
+  if (api !== "api" || !first) {
+    return null
+  }
+
+  if (["ai", "dashboard", "admin"].includes(first)) {
+    return second ? `${first}:${second}` : first
+  }
+  return `api:${first}`
+}
+
+/**
+ * Patterns that can configure a permission's limit, most specific first
+ * (ai:social -> ai:social, ai:*, *)
+ */
+export function getRateLimitPatterns(permission: string): string[] {
+  const parts = permission.split(":")
+  const prefixes = parts.slice(0, -1).map((_, i) => `${parts.slice(0, parts.length - 1 - i).join(":")}:*`)
+  return [permission, ...prefixes, "*"]
+}
+
+/**
+ * Find the limit for a permission, or null if it is unlimited
+ * A KV override of 0 requests turns limiting off for that pattern
+ */
+export async function getRateLimitRule(
+  kv: KVNamespace | undefined,
+  permission: string
+): Promise<{ pattern: string; rule: RateLimitRule } | null> {
+  for (const pattern of getRateLimitPatterns(permission)) {
+    const [requests, windowSeconds] = kv
+      ? await Promise.all([
+          kv.get(`ratelimit:${pattern}:requests`, { cacheTtl: 60 }),
+          kv.get(`ratelimit:${pattern}:window-seconds`, { cacheTtl: 60 })
+        ])
+      : [null, null]
+
+    if (requests !== null) {
+      const rule = {
+        requests: Number.parseInt(requests, 10),
+        windowSeconds: Number.parseInt(windowSeconds || "60", 10)
+      }
+      return rule.requests > 0 && rule.windowSeconds > 0 ? { pattern, rule } : null
+    }
+
+    const rule = DEFAULT_RATE_LIMITS[pattern]
+    if (rule) {
+      return { pattern, rule }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Who a request counts against: the verified token or API key (jti, else sub) or the client IP for anonymous callers
+ * Unverifiable credentials count against the IP so made-up ones can't dodge the limit
+ * The verification is reused by the handler's authorization, so it costs nothing extra
+ */
+export async function getRateLimitIdentity(event: H3Event): Promise<string> {
+  if (extractToken(event) || extractAPIKey(event)) {
+    const verification = await authenticateRequest(event)
+    if (verification.success && verification.payload) {
+      return verification.payload.jti ? `jti:${verification.payload.jti}` : `sub:${verification.payload.sub}`
+    }
+  }
+
+  return `ip:${getHeader(event, "cf-connecting-ip") || getHeader(event, "x-forwarded-for") || "unknown"}`
+}
+
+/**
+ * Count a request in the current window and check the sliding-window estimate against the limit
+ * The estimate weights the previous window by how much of it still overlaps the sliding window
+ */
+export async function checkRateLimit(
+  db: D1Database,
+  key: string,
+  rule: RateLimitRule,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const windowMs = rule.windowSeconds * 1000
+  const windowStart = Math.floor(now / windowMs) * windowMs
+  const previousStart = windowStart - windowMs
+
+  const [current, previous] = await db.batch<{ count: number }>([
+    db
+      .prepare(
+        `INSERT INTO rate_limits (key, window_start, count) VALUES (?1, ?2, 1)
+         ON CONFLICT (key, window_start) DO UPDATE SET count = count + 1
+         RETURNING count`
+      )
+      .bind(key, windowStart),
+    db.prepare("SELECT count FROM rate_limits WHERE key = ?1 AND window_start = ?2").bind(key, previousStart),
+    db.prepare("DELETE FROM rate_limits WHERE key = ?1 AND window_start < ?2").bind(key, previousStart)
+  ])
+
+  const currentCount = current?.results[0]?.count ?? 1
+  const previousCount = previous?.results[0]?.count ?? 0
+  const overlap = 1 - (now - windowStart) / windowMs
+  const count = Math.floor(previousCount * overlap) + currentCount
+
+  return {
+    allowed: count <= rule.requests,
+    limit: rule.requests,
+    count,
+    retryAfter: Math.max(Math.ceil((windowStart + windowMs - now) / 1000), 1)
+  }
+}
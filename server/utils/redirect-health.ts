@@ -0,0 +1,356 @@
+import {
+  getRedirect,
+  getRedirectAliasSlug,
+  getRedirectAvailability,
+  listRedirectSlugs,
+  resolveRedirectAlias
+} from "./redirects"
+import type { RedirectRecord, RedirectRuleContext } from "./redirects"
+import { isApiError } from "./response"
+import { RedirectDestinationHealthSchema } from "./schemas"
+import type { RedirectHealthReport } from "./schemas"
+
+/**
+ * Result of checking a redirect: its URL, plus its rule and variant destinations when it has any
+ * ok is only true when every destination is healthy
+ */
+export interface RedirectHealthResult {
+  slug: string
+  url: string
+  ok: boolean
+  status: number | null
+  latency_ms: number
+  checked_at: string
+  error?: string
+  destinations?: RedirectDestinationHealth[]
+}
+
+/**
+ * Result of checking one of a redirect's rule or variant destinations
+ */
+export interface RedirectDestinationHealth {
+  source: string // rule:{index} or variant:{index}
+  url: string
+  ok: boolean
+  status: number | null
+  latency_ms: number
+  error?: string
+}
+
+/**
+ * Options for running redirect health checks
+ */
+export interface RedirectHealthCheckOptions {
+  /** fetch implementation, injectable so checks can run against a local stub server */
+  fetch?: typeof fetch
+  /** Per-request timeout in milliseconds */
+  timeoutMs?: number
+  /** Number of destinations checked at once (Workers allow six open connections) */
+  concurrency?: number
+  /** Redirect store, used to resolve /go/{slug} aliases instead of requesting them */
+  kv?: KVNamespace
+  /** Origins besides dave.io whose /go/{slug} URLs are aliases */
+  origins?: string[]
+}
+
+/**
+ * Visitor context aliases are resolved with: no targeting rule matches, so each hop uses its URL
+ */
+const HEALTH_CHECK_CONTEXT: RedirectRuleContext = { country: "", platform: "" }
+
+/**
+ * Health fields stored per slug (result field -> KV key suffix)
+ */
+const REDIRECT_HEALTH_FIELDS = {
+  url: "url",
+  ok: "ok",
+  status: "status",
+  latency_ms: "latency-ms",
+  checked_at: "checked-at",
+  error: "error",
+  destinations: "destinations"
+} as const
+
+type RedirectHealthField = keyof typeof REDIRECT_HEALTH_FIELDS
+
+/**
+ * KV key holding a single health field for a slug
+ */
+function getRedirectHealthKey(slug: string, field: RedirectHealthField): string {
+  return `health:redirect:${slug}:${REDIRECT_HEALTH_FIELDS[field]}`
+}
+
+/**
+ * Request a destination, returning the response status
+ * Uses HEAD first and falls back to GET for servers that reject HEAD
+ */
+async function requestDestination(url: string, fetchFn: typeof fetch, timeoutMs: number): Promise<number> {
+  const headers = { "User-Agent": "dave.io/1.0 (Redirect Health Check)" }
+
+  const head = await fetchFn(url, {
+    method: "HEAD",
+    redirect: "follow",
+    headers,
+    signal: AbortSignal.timeout(timeoutMs)
+  })
+  if (head.status !== 405 && head.status !== 501) {
+    return head.status
+  }
+
+  const get = await fetchFn(url, { method: "GET", redirect: "follow", headers, signal: AbortSignal.timeout(timeoutMs) })
+  // Only the status matters, so don't download the body
+  await get.body?.cancel()
+  return get.status
+}
+
+/**
+ * Follow a same-origin /go/{slug} alias through KV, returning the URL to request or the status to report
+ * Requesting the alias itself would count clicks against it, inflating its stats and using up its max_clicks
+ */
+async function resolveAliasDestination(
+  slug: string,
+  url: string,
+  options: RedirectHealthCheckOptions
+): Promise<{ url: string } | { ok: boolean; status: number | null; error?: string }> {
+  if (!options.kv || !getRedirectAliasSlug(url, options.origins)) {
+    return { url }
+  }
+
+  try {
+    const resolution = await resolveRedirectAlias(options.kv, slug, url, HEALTH_CHECK_CONTEXT, {
+      origins: options.origins
+    })
+    if (resolution.unavailable) {
+      const { slug: hopSlug, availability } = resolution.unavailable
+      return { ok: false, status: 410, error: `Short link ${hopSlug} is ${availability}` }
+    }
+
+    // Resolution stops at missing and scheduled links, and at links that split traffic across variants
+    const remaining = getRedirectAliasSlug(resolution.url, options.origins)
+    if (!remaining) {
+      return { url: resolution.url }
+    }
+    const hop = await getRedirect(options.kv, remaining)
+    if (!hop || getRedirectAvailability(hop) === "scheduled") {
+      return { ok: false, status: 404, error: `Short link ${remaining} does not exist` }
+    }
+    // A live link's own destinations are covered by its own health check
+    return { ok: true, status: null }
+  } catch (error) {
+    return {
+      ok: false,
+      status: isApiError(error) ? error.statusCode : null,
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+/**
+ * Check a single redirect destination
+ * With options.kv, same-origin aliases are resolved and their final destination is checked instead
+ */
+export async function checkRedirectDestination(
+  slug: string,
+  url: string,
+  options: RedirectHealthCheckOptions = {}
+): Promise<RedirectHealthResult> {
+  const started = Date.now()
+
+  try {
+    const destination = await resolveAliasDestination(slug, url, options)
+    if (!("url" in destination)) {
+      return {
+        slug,
+        url,
+        ok: destination.ok,
+        status: destination.status,
+        latency_ms: Date.now() - started,
+        checked_at: new Date().toISOString(),
+        ...(destination.error ? { error: destination.error } : {})
+      }
+    }
+
+    const status = await requestDestination(destination.url, options.fetch ?? fetch, options.timeoutMs ?? 10000)
+    return {
+      slug,
+      url,
+      ok: status < 400,
+      status,
+      latency_ms: Date.now() - started,
+      checked_at: new Date().toISOString()
+    }
+  } catch (error) {
+    return {
+      slug,
+      url,
+      ok: false,
+      status: null,
+      latency_ms: Date.now() - started,
+      checked_at: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+}
+
+/**
+ * Rule and variant destinations a redirect can send visitors to besides its URL
+ */
+function getAlternateDestinations(redirect: RedirectRecord): { source: string; url: string }[] {
+  return [
+    ...(redirect.rules ?? []).map((rule, index) => ({ source: `rule:${index}`, url: rule.url })),
+    ...(redirect.variants ?? []).map((variant, index) => ({ source: `variant:${index}`, url: variant.url }))
+  ]
+}
+
+/**
+ * Check a redirect's URL and then each of its rule and variant destinations
+ * Destinations are checked one at a time, and a URL shared by several of them is only requested once
+ */
+export async function checkRedirect(
+  redirect: RedirectRecord,
+  options: RedirectHealthCheckOptions = {}
+): Promise<RedirectHealthResult> {
+  const main = await checkRedirectDestination(redirect.slug, redirect.url, options)
+  const checked = new Map<string, RedirectHealthResult>([[redirect.url, main]])
+  const destinations: RedirectDestinationHealth[] = []
+
+  for (const { source, url } of getAlternateDestinations(redirect)) {
+    const result = checked.get(url) ?? (await checkRedirectDestination(redirect.slug, url, options))
+    checked.set(url, result)
+    destinations.push({
+      source,
+      url,
+      ok: result.ok,
+      status: result.status,
+      latency_ms: result.latency_ms,
+      ...(result.error ? { error: result.error } : {})
+    })
+  }
+
+  if (destinations.length === 0) {
+    return main
+  }
+
+  return { ...main, ok: main.ok && destinations.every((destination) => destination.ok), destinations }
+}
+
+/**
+ * Store a health check result using simple KV keys; rule and variant results are kept as one JSON array
+ */
+async function putRedirectHealth(kv: KVNamespace, result: RedirectHealthResult): Promise<void> {
+  await Promise.all(
+    (Object.keys(REDIRECT_HEALTH_FIELDS) as RedirectHealthField[]).map((field) => {
+      const value = result[field]
+      const key = getRedirectHealthKey(result.slug, field)
+      if (value === undefined || value === null) {
+        return kv.delete(key)
+      }
+      return kv.put(key, Array.isArray(value) ? JSON.stringify(value) : String(value))
+    })
+  )
+}
+
+/**
+ * Parse stored rule and variant results, dropping them if they don't parse
+ */
+function parseDestinationHealth(value: string | null | undefined): RedirectDestinationHealth[] | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  try {
+    const parsed = RedirectDestinationHealthSchema.array().safeParse(JSON.parse(value))
+    return parsed.success ? parsed.data : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Whether a stored result still covers a redirect's current URL and rule and variant destinations
+ */
+function isRedirectHealthCurrent(health: RedirectHealthResult, redirect: RedirectRecord): boolean {
+  const checked = (health.destinations ?? []).map(({ source, url }) => `${source} ${url}`)
+  const current = getAlternateDestinations(redirect).map(({ source, url }) => `${source} ${url}`)
+  return health.url === redirect.url && checked.join("\n") === current.join("\n")
+}
+
+/**
+ * Load the last health check result for a slug, or null if it has never been checked
+ */
+export async function getRedirectHealth(kv: KVNamespace, slug: string): Promise<RedirectHealthResult | null> {
+  const fields = Object.keys(REDIRECT_HEALTH_FIELDS) as RedirectHealthField[]
+  const values = await Promise.all(fields.map((field) => kv.get(getRedirectHealthKey(slug, field))))
+  const stored = Object.fromEntries(fields.map((field, index) => [field, values[index]]))
+
+  if (!stored.checked_at || !stored.url) {
+    return null
+  }
+
+  const destinations = parseDestinationHealth(stored.destinations)
+
+  return {
+    slug,
+    url: stored.url,
+    ok: stored.ok === "true",
+    status: stored.status ? Number.parseInt(stored.status, 10) : null,
+    latency_ms: Number.parseInt(stored.latency_ms || "0", 10),
+    checked_at: stored.checked_at,
+    ...(stored.error ? { error: stored.error } : {}),
+    ...(destinations ? { destinations } : {})
+  }
+}
+
+/**
+ * Check every redirect's destinations and store the results
+ */
+export async function runRedirectHealthChecks(
+  kv: KVNamespace,
+  options: RedirectHealthCheckOptions = {}
+): Promise<RedirectHealthResult[]> {
+  const slugs = await listRedirectSlugs(kv)
+  const results: RedirectHealthResult[] = []
+  const concurrency = options.concurrency ?? 6
+
+  for (let i = 0; i < slugs.length; i += concurrency) {
+    const batch = await Promise.all(
+      slugs.slice(i, i + concurrency).map(async (slug) => {
+        const redirect = await getRedirect(kv, slug)
+        if (!redirect) {
+          return null
+        }
+        const result = await checkRedirect(redirect, { kv, ...options })
+        await putRedirectHealth(kv, result)
+        return result
+      })
+    )
+    results.push(...batch.filter((result): result is RedirectHealthResult => result !== null))
+  }
+
+  return results
+}
+
+/**
+ * Summarise the last health check of every redirect
+ * Slugs never checked, or whose destinations changed since the last check, are reported as unchecked
+ */
+export async function getRedirectHealthReport(kv: KVNamespace): Promise<RedirectHealthReport> {
+  const slugs = await listRedirectSlugs(kv)
+  const entries = await Promise.all(
+    slugs.map(async (slug) => {
+      const [redirect, health] = await Promise.all([getRedirect(kv, slug), getRedirectHealth(kv, slug)])
+      return { slug, health: health && redirect && isRedirectHealthCurrent(health, redirect) ? health : null }
+    })
+  )
+
+  const redirects = entries.flatMap(({ health }) => (health ? [health] : []))
+  const healthy = redirects.filter((health) => health.ok).length
+
+  return {
+    total: slugs.length,
+    healthy,
+    failing: redirects.length - healthy,
+    unchecked: entries.filter(({ health }) => !health).map(({ slug }) => slug),
+    redirects
+  }
+}
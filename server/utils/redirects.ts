@@ -0,0 +1,697 @@
+import { z } from "zod"
+import { createApiError } from "./response"
+import { RedirectRuleSchema, RedirectVariantSchema } from "./schemas"
+
+/**
+ * Redirect record as exposed by the redirects API and /go route
+ */
+export interface RedirectRecord {
+  slug: string
+  url: string
+  title?: string
+  description?: string
+  clicks: number
+  not_before?: string
+  expires_at?: string
+  max_clicks?: number
+  max_clicks_baseline?: number // Lifetime clicks when max_clicks was set; the cap counts clicks after it
+  forward_query?: boolean
+  forward_path?: boolean
+  status_code?: RedirectStatusCode
+  rules?: RedirectRule[]
+  variants?: RedirectVariant[]
+  created_at?: string
+  updated_at?: string
+}
+
+/**
+ * Writable redirect fields accepted by the redirects API
+ */
+export interface RedirectInput {
+  url: string
+  title?: string
+  description?: string
+  not_before?: string
+  expires_at?: string
+  max_clicks?: number
+  forward_query?: boolean
+  forward_path?: boolean
+  status_code?: RedirectStatusCode
+  rules?: RedirectRule[]
+  variants?: RedirectVariant[]
+}
+
+/**
+ * HTTP status codes a redirect may respond with (302 when unset)
+ */
+export type RedirectStatusCode = 301 | 302 | 307 | 308
+
+/**
+ * Weighted destination for A/B split redirects
+ */
+export interface RedirectVariant {
+  url: string
+  weight: number
+}
+
+/**
+ * Targeting rule choosing an alternative destination; rules are evaluated in order
+ */
+export interface RedirectRule {
+  type: "country" | "platform" | "language"
+  values: string[]
+  url: string
+}
+
+/**
+ * Visitor attributes that targeting rules match against
+ */
+export interface RedirectRuleContext {
+  country: string
+  platform: string
+  language?: string
+}
+
+/**
+ * Whether a redirect can currently be followed
+ */
+export type RedirectAvailability = "active" | "scheduled" | "expired" | "exhausted"
+
+/**
+ * Metadata fields stored alongside each redirect (record field -> KV key suffix)
+ */
+const REDIRECT_META_FIELDS = {
+  title: "title",
+  description: "description",
+  not_before: "not-before",
+  expires_at: "expires-at",
+  max_clicks: "max-clicks",
+  max_clicks_baseline: "max-clicks-baseline",
+  forward_query: "forward-query",
+  forward_path: "forward-path",
+  status_code: "status-code",
+  created_at: "created-at",
+  updated_at: "updated-at"
+} as const
+
+type RedirectMetaField = keyof typeof REDIRECT_META_FIELDS
+
+/**
+ * KV key holding the destination URL for a slug
+ */
+export function getRedirectKey(slug: string): string {
+  return `redirect:${slug}`
+}
+
+/**
+ * KV key holding a single metadata field for a slug
+ */
+export function getRedirectMetaKey(slug: string, field: RedirectMetaField): string {
+  return `meta:redirect:${slug}:${REDIRECT_META_FIELDS[field]}`
+}
+
+/**
+ * KV key prefix for cached QR code renderings of a slug
+ */
+function getQRCachePrefix(slug: string): string {
+  return `qr:${slug}:`
+}
+
+/**
+ * KV key for a cached QR code rendering with specific options
+ */
+export function getQRCacheKey(
+  slug: string,
+  options: { format: string; size: number; margin: number; ecc: string }
+): string {
+  return `${getQRCachePrefix(slug)}${options.format}:${options.size}:${options.margin}:${options.ecc}`
+}
+
+/**
+ * Ordered lists stored alongside each redirect, each as a JSON array under one key
+ * so following a redirect needs a get per list rather than a list() of the namespace
+ */
+const REDIRECT_LISTS = {
+  rules: z.array(RedirectRuleSchema),
+  variants: z.array(RedirectVariantSchema)
+} as const
+
+type RedirectListName = keyof typeof REDIRECT_LISTS
+
+/**
+ * List every KV key under a prefix, following cursors
+ */
+async function listKVKeys(kv: KVNamespace, prefix: string): Promise<string[]> {
+  const names: string[] = []
+  let cursor: string | undefined
+
+  do {
+    const listed = await kv.list({ prefix, cursor })
+    names.push(...listed.keys.map((key) => key.name))
+    cursor = listed.list_complete ? undefined : listed.cursor
+  } while (cursor)
+
+  return names
+}
+
+/**
+ * KV key holding a redirect's rules or variants
+ */
+export function getRedirectListKey(slug: string, list: RedirectListName): string {
+  return `meta:redirect:${slug}:${list}`
+}
+
+/**
+ * Parse a stored rules or variants list, given as JSON or already parsed
+ * Lists that don't parse or validate are treated as empty
+ */
+export function parseRedirectList(list: "rules", value: unknown): RedirectRule[]
+export function parseRedirectList(list: "variants", value: unknown): RedirectVariant[]
+export function parseRedirectList(list: RedirectListName, value: unknown): RedirectRule[] | RedirectVariant[] {
+  let parsed = value
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      return []
+    }
+  }
+
+  const result = REDIRECT_LISTS[list].safeParse(parsed)
+  return result.success ? result.data : []
+}
+
+/**
+ * Lifetime click count for a slug, kept by the /go metrics even after its redirect is deleted
+ */
+async function getRedirectClicks(kv: KVNamespace, slug: string): Promise<number> {
+  const value = await kv.get(`metrics:redirect:${slug}:ok`)
+  return value ? Number.parseInt(value, 10) : 0
+}
+
+/**
+ * Load a redirect with its metadata and click count
+ * Returns null if no redirect exists for the slug
+ */
+export async function getRedirect(kv: KVNamespace, slug: string): Promise<RedirectRecord | null> {
+  const fields = Object.keys(REDIRECT_META_FIELDS) as RedirectMetaField[]
+
+  const [url, clickCountStr, rulesValue, variantsValue, ...metaValues] = await Promise.all([
+    kv.get(getRedirectKey(slug)),
+    kv.get(`metrics:redirect:${slug}:ok`),
+    kv.get(getRedirectListKey(slug, "rules")),
+    kv.get(getRedirectListKey(slug, "variants")),
+    ...fields.map((field) => kv.get(getRedirectMetaKey(slug, field)))
+  ])
+
+  if (!url) {
+    return null
+  }
+
+  const record: RedirectRecord = {
+    slug,
+    url,
+    clicks: clickCountStr ? Number.parseInt(clickCountStr, 10) : 0
+  }
+
+  const rules = parseRedirectList("rules", rulesValue)
+  if (rules.length > 0) {
+    record.rules = rules
+  }
+
+  const variants = parseRedirectList("variants", variantsValue)
+  if (variants.length > 0) {
+    record.variants = variants
+  }
+
+  fields.forEach((field, index) => {
+    const value = metaValues[index]
+    if (!value) {
+      return
+    }
+    switch (field) {
+      case "max_clicks":
+      case "max_clicks_baseline":
+        record[field] = Number.parseInt(value, 10)
+        break
+      case "status_code":
+        record.status_code = Number.parseInt(value, 10) as RedirectStatusCode
+        break
+      case "forward_query":
+      case "forward_path":
+        record[field] = value === "true"
+        break
+      default:
+        record[field] = value
+    }
+  })
+
+  return record
+}
+
+/**
+ * Create or replace a redirect and its metadata, invalidating cached QR codes
+ * created_at is preserved from the existing record when present
+ * Click counts outlive deleted redirects, so a new max_clicks is baselined at the current count
+ */
+export async function putRedirect(
+  kv: KVNamespace,
+  slug: string,
+  input: RedirectInput,
+  existing?: RedirectRecord | null
+): Promise<RedirectRecord> {
+  const now = new Date().toISOString()
+  const clicks = existing ? existing.clicks : await getRedirectClicks(kv, slug)
+  const capUnchanged = existing?.max_clicks !== undefined && existing.max_clicks === input.max_clicks
+  const record: RedirectRecord = {
+    slug,
+    url: input.url,
+    title: input.title || undefined,
+    description: input.description || undefined,
+    not_before: input.not_before || undefined,
+    expires_at: input.expires_at || undefined,
+    max_clicks: input.max_clicks || undefined,
+    max_clicks_baseline: input.max_clicks ? (capUnchanged ? existing?.max_clicks_baseline : clicks) : undefined,
+    forward_query: input.forward_query || undefined,
+    forward_path: input.forward_path || undefined,
+    status_code: input.status_code || undefined,
+    rules: input.rules?.length ? input.rules : undefined,
+    variants: input.variants?.length ? input.variants : undefined,
+    clicks,
+    created_at: existing?.created_at ?? now,
+    updated_at: now
+  }
+
+  const operations: Promise<void>[] = [kv.put(getRedirectKey(slug), record.url)]
+
+  for (const field of Object.keys(REDIRECT_META_FIELDS) as RedirectMetaField[]) {
+    const value = record[field]
+    const key = getRedirectMetaKey(slug, field)
+    operations.push(value ? kv.put(key, String(value)) : kv.delete(key))
+  }
+
+  for (const list of Object.keys(REDIRECT_LISTS) as RedirectListName[]) {
+    const entries = record[list]
+    const key = getRedirectListKey(slug, list)
+    operations.push(entries ? kv.put(key, JSON.stringify(entries)) : kv.delete(key))
+  }
+
+  const qrCacheKeys = await listKVKeys(kv, getQRCachePrefix(slug))
+  operations.push(...qrCacheKeys.map((key) => kv.delete(key)))
+
+  await Promise.all(operations)
+
+  return record
+}
+
+/**
+ * Ensure a redirect's schedule is coherent before storing it
+ */
+export function validateRedirectSchedule(input: RedirectInput): void {
+  if (input.not_before && input.expires_at && Date.parse(input.not_before) >= Date.parse(input.expires_at)) {
+    throw createApiError(400, "not_before must be earlier than expires_at")
+  }
+}
+
+/**
+ * Work out whether a redirect is live, not yet live, past its expiry or out of clicks
+ * max_clicks is best-effort: click counts are a KV read-modify-write, so concurrent clicks can overshoot it
+ */
+export function getRedirectAvailability(redirect: RedirectRecord, now = Date.now()): RedirectAvailability {
+  if (redirect.not_before && now < Date.parse(redirect.not_before)) {
+    return "scheduled"
+  }
+
+  if (redirect.expires_at && now >= Date.parse(redirect.expires_at)) {
+    return "expired"
+  }
+
+  if (
+    redirect.max_clicks !== undefined &&
+    redirect.clicks - (redirect.max_clicks_baseline ?? 0) >= redirect.max_clicks
+  ) {
+    return "exhausted"
+  }
+
+  return "active"
+}
+
+/**
+ * Get the visitor's most preferred language tag from an Accept-Language header
+ */
+export function getPreferredLanguage(acceptLanguage?: string): string | undefined {
+  if (!acceptLanguage) {
+    return undefined
+  }
+
+  const languages = acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [tag = "", ...params] = part.trim().split(";")
+      const q = params.find((param) => param.trim().startsWith("q="))
+      return { tag: tag.trim().toLowerCase(), q: q ? Number.parseFloat(q.trim().substring(2)) : 1 }
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    .sort((a, b) => b.q - a.q)
+
+  return languages[0]?.tag
+}
+
+/**
+ * Check whether a single targeting rule matches the visitor
+ * Language values match a full tag ("pt-br") or any region of a base language ("pt")
+ */
+function matchesRedirectRule(rule: RedirectRule, context: RedirectRuleContext): boolean {
+  const values = rule.values.map((value) => value.toLowerCase())
+
+  switch (rule.type) {
+    case "country":
+      return values.includes(context.country.toLowerCase())
+    case "platform":
+      return values.includes(context.platform.toLowerCase())
+    case "language": {
+      const language = context.language?.toLowerCase()
+      return !!language && values.some((value) => language === value || language.startsWith(`${value}-`))
+    }
+    default:
+      return false
+  }
+}
+
+/**
+ * Pick the destination for a visitor from the redirect's ordered rules
+ * The first matching rule wins; otherwise the redirect URL is the fallback
+ */
+export function selectRedirectTarget(
+  redirect: RedirectRecord,
+  context: RedirectRuleContext
+): { url: string; rule: string } {
+  const index = (redirect.rules ?? []).findIndex((rule) => matchesRedirectRule(rule, context))
+  const rule = redirect.rules?.[index]
+
+  return rule ? { url: rule.url, rule: String(index) } : { url: redirect.url, rule: "fallback" }
+}
+
+/**
+ * Build the final destination URL, forwarding extra path segments and query parameters
+ * Incoming query parameters replace any with the same name on the destination
+ */
+export function buildRedirectDestination(target: string, options: { path?: string; query?: URLSearchParams }): string {
+  const url = new URL(target)
+
+  if (options.path) {
+    const segments = options.path.split("/").filter(Boolean)
+    if (segments.some((segment) => segment === "." || segment === "..")) {
+      throw createApiError(400, "Invalid path")
+    }
+    url.pathname = `${url.pathname.replace(/\/+$/, "")}/${segments.map(encodeURIComponent).join("/")}`
+  }
+
+  if (options.query) {
+    for (const key of new Set(options.query.keys())) {
+      url.searchParams.delete(key)
+      for (const value of options.query.getAll(key)) {
+        url.searchParams.append(key, value)
+      }
+    }
+  }
+
+  return url.toString()
+}
+
+/**
+ * Origins whose /go/{slug} links are aliases for another redirect
+ */
+const REDIRECT_ALIAS_ORIGINS = ["https://dave.io", "https://www.dave.io"]
+
+/**
+ * Maximum number of aliases followed before handing the rest of the chain to the browser
+ */
+const REDIRECT_ALIAS_MAX_DEPTH = 5
+
+/**
+ * Slug targeted by a same-origin /go/{slug} URL, or null if the URL isn't an alias
+ * Aliases with a query string, fragment or extra path are left for the browser to follow
+ */
+export function getRedirectAliasSlug(target: string, origins: string[] = []): string | null {
+  let url: URL
+  try {
+    url = new URL(target)
+  } catch {
+    return null
+  }
+
+  if (![...REDIRECT_ALIAS_ORIGINS, ...origins].includes(url.origin) || url.search || url.hash) {
+    return null
+  }
+
+  const match = url.pathname.match(/^\/go\/([^/+]+)\/?$/)
+  if (!match) {
+    return null
+  }
+
+  // Malformed percent-encoding (/go/%E0%A4%A) can't name a slug
+  try {
+    return decodeURIComponent(match[1]!)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Short link followed server-side on the way to the final destination
+ */
+export interface RedirectAliasHop {
+  slug: string
+  rule: string // Targeting rule that chose the hop's destination (rule index or "fallback")
+}
+
+/**
+ * Where a chain of aliases leads; unavailable is set when it ends at an expired or exhausted link
+ */
+export interface RedirectAliasResolution {
+  url: string
+  hops: RedirectAliasHop[]
+  unavailable?: { slug: string; availability: "expired" | "exhausted" }
+}
+
+/**
+ * Follow a chain of /go/ aliases to the final destination
+ * Each hop's schedule and click limit apply as if the visitor had followed it: an expired or exhausted hop ends
+ * the chain as unavailable, and a missing, scheduled or split hop is left for that redirect to handle itself
+ */
+export async function resolveRedirectAlias(
+  kv: KVNamespace,
+  slug: string,
+  target: string,
+  context: RedirectRuleContext,
+  options: { origins?: string[]; maxDepth?: number } = {}
+): Promise<RedirectAliasResolution> {
+  const chain = [slug]
+  const hops: RedirectAliasHop[] = []
+  const maxDepth = options.maxDepth ?? REDIRECT_ALIAS_MAX_DEPTH
+  let url = target
+
+  for (let next = getRedirectAliasSlug(url, options.origins); next; next = getRedirectAliasSlug(url, options.origins)) {
+    if (chain.includes(next)) {
+      throw createApiError(508, `Redirect loop detected: ${[...chain, next].join(" -> ")}`)
+    }
+    if (hops.length >= maxDepth) {
+      break
+    }
+
+    const hop = await getRedirect(kv, next)
+    if (!hop) {
+      break
+    }
+
+    const availability = getRedirectAvailability(hop)
+    if (availability === "expired" || availability === "exhausted") {
+      return { url, hops, unavailable: { slug: next, availability } }
+    }
+    if (availability !== "active") {
+      break
+    }
+
+    const hopTarget = selectRedirectTarget(hop, context)
+    if (hopTarget.rule === "fallback" && (hop.variants?.length ?? 0) > 0) {
+      break
+    }
+
+    chain.push(next)
+    hops.push({ slug: next, rule: hopTarget.rule })
+    url = hopTarget.url
+  }
+
+  return { url, hops }
+}
+
+/**
+ * Find alias cycles and aliases pointing at missing slugs in a flat set of KV keys
+ * Every destination of a redirect counts: its URL, rule URLs and variant URLs
+ */
+export function findRedirectAliasProblems(data: Record<string, unknown>): {
+  cycles: string[][]
+  dangling: { slug: string; target: string }[]
+} {
+  const aliases = new Map<string, Set<string>>()
+  const addAlias = (slug: string, value: unknown) => {
+    const target = typeof value === "string" ? getRedirectAliasSlug(value) : null
+    if (target) {
+      aliases.set(slug, (aliases.get(slug) ?? new Set()).add(target))
+    }
+  }
+
+  const slugs = new Set<string>()
+  for (const [key, value] of Object.entries(data)) {
+    const redirectMatch = key.match(/^redirect:([^:]+)$/)
+    const listMatch = key.match(/^meta:redirect:([^:]+):(rules|variants)$/)
+    if (redirectMatch) {
+      slugs.add(redirectMatch[1]!)
+      addAlias(redirectMatch[1]!, value)
+    } else if (listMatch) {
+      const entries =
+        listMatch[2] === "rules" ? parseRedirectList("rules", value) : parseRedirectList("variants", value)
+      for (const entry of entries) {
+        addAlias(listMatch[1]!, entry.url)
+      }
+    }
+  }
+
+  const dangling = [...aliases].flatMap(([slug, targets]) =>
+    [...targets].filter((target) => !slugs.has(target)).map((target) => ({ slug, target }))
+  )
+
+  // Depth-first search; a slug already on the current path closes a cycle
+  const cycles: string[][] = []
+  const seenCycles = new Set<string>()
+  const done = new Set<string>()
+  const visit = (slug: string, path: string[]) => {
+    const start = path.indexOf(slug)
+    if (start !== -1) {
+      const cycle = path.slice(start)
+      // Rotate so the same cycle found from another slug is only reported once
+      const first = cycle.indexOf([...cycle].sort()[0]!)
+      const normalised = [...cycle.slice(first), ...cycle.slice(0, first)]
+      if (!seenCycles.has(normalised.join(" "))) {
+        seenCycles.add(normalised.join(" "))
+        cycles.push([...normalised, normalised[0]!])
+      }
+      return
+    }
+    if (done.has(slug)) {
+      return
+    }
+    for (const target of aliases.get(slug) ?? []) {
+      visit(target, [...path, slug])
+    }
+    done.add(slug)
+  }
+  for (const slug of [...aliases.keys()].sort()) {
+    visit(slug, [])
+  }
+
+  return { cycles, dangling }
+}
+
+/**
+ * Name of the cookie holding a visitor's sticky variant for a slug
+ */
+export function getVariantCookieName(slug: string): string {
+  return `go_variant_${slug}`
+}
+
+/**
+ * Pick a variant index in proportion to its weight
+ * random is a number in [0, 1), injectable for testing
+ */
+export function pickRedirectVariant(variants: RedirectVariant[], random = Math.random()): number {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0)
+  let remaining = random * total
+
+  for (const [index, variant] of variants.entries()) {
+    remaining -= variant.weight
+    if (remaining < 0) {
+      return index
+    }
+  }
+
+  return variants.length - 1
+}
+
+/**
+ * HMAC key and signed payload for a sticky variant assignment
+ * The key is derived from the secret with HKDF, so the public /go route never signs with the secret itself
+ * The payload includes the variant URL so editing the variants reassigns visitors
+ */
+async function getVariantSigningInput(secret: string, slug: string, index: number, variant: RedirectVariant) {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), "HKDF", false, ["deriveKey"])
+  const key = await crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(), info: new TextEncoder().encode("go-variant") },
+    material,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign", "verify"]
+  )
+  return { key, data: new TextEncoder().encode(`${slug}:${index}:${variant.url}`) }
+}
+
+/**
+ * Create the signed cookie value ({index}.{signature}) recording a visitor's variant
+ */
+export async function signVariantAssignment(
+  secret: string,
+  slug: string,
+  index: number,
+  variant: RedirectVariant
+): Promise<string> {
+  const { key, data } = await getVariantSigningInput(secret, slug, index, variant)
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, data))
+  return `${index}.${Buffer.from(signature).toString("base64url")}`
+}
+
+/**
+ * Read a visitor's variant from a signed cookie value
+ * Returns null when the cookie is missing, tampered with or refers to a changed variant
+ */
+export async function verifyVariantAssignment(
+  secret: string,
+  slug: string,
+  variants: RedirectVariant[],
+  cookie?: string
+): Promise<number | null> {
+  const [indexStr, signature] = cookie?.split(".") ?? []
+  const index = Number.parseInt(indexStr ?? "", 10)
+  const variant = variants[index]
+  if (!variant || !signature || String(index) !== indexStr) {
+    return null
+  }
+
+  const { key, data } = await getVariantSigningInput(secret, slug, index, variant)
+  const valid = await crypto.subtle.verify("HMAC", key, Buffer.from(signature, "base64url"), data)
+  return valid ? index : null
+}
+
+/**
+ * Delete a redirect, its metadata and cached QR codes (metrics are kept for history)
+ */
+export async function deleteRedirect(kv: KVNamespace, slug: string): Promise<void> {
+  const fields = Object.keys(REDIRECT_META_FIELDS) as RedirectMetaField[]
+  const lists = Object.keys(REDIRECT_LISTS) as RedirectListName[]
+  const qrCacheKeys = await listKVKeys(kv, getQRCachePrefix(slug))
+  await Promise.all([
+    kv.delete(getRedirectKey(slug)),
+    ...fields.map((field) => kv.delete(getRedirectMetaKey(slug, field))),
+    ...lists.map((list) => kv.delete(getRedirectListKey(slug, list))),
+    ...qrCacheKeys.map((key) => kv.delete(key))
+  ])
+}
+
+/**
+ * List all redirect slugs in alphabetical order
+ */
+export async function listRedirectSlugs(kv: KVNamespace): Promise<string[]> {
+  const prefix = "redirect:"
+  const keys = await listKVKeys(kv, prefix)
+  return keys.map((key) => key.substring(prefix.length)).sort()
+}
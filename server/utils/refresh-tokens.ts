@@ -0,0 +1,246 @@
+import { hashAPIKey } from "./api-keys"
+import { cacheTokenRevocation, isRevokedByCutoff } from "./revocation"
+
+/**
+ * Prefix marking opaque refresh tokens; distinct from API keys so the two are never confused
+ */
+export const REFRESH_TOKEN_PREFIX = "drt_"
+
+/**
+ * Lifetime of access tokens minted from a refresh token
+ */
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60
+
+/**
+ * Refresh tokens are stored as SHA-256 hashes. Each exchange marks the token used and adds its
+ * replacement to the same family, so a used token coming back means the family has leaked.
+ * access_jti is the access token minted when the row's refresh token was exchanged.
+ */
+export const REFRESH_TOKENS_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id TEXT PRIMARY KEY,
+    family_id TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    sub TEXT NOT NULL,
+    permissions TEXT,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    used_at TEXT,
+    revoked_at TEXT,
+    access_jti TEXT
+  )
+`
+
+export const REFRESH_TOKENS_INDEX_SQL = `
+  CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family ON refresh_tokens(family_id)
+`
+
+/**
+ * Stored refresh token, without its hash
+ */
+export interface RefreshTokenRecord {
+  id: string
+  familyId: string
+  sub: string
+  permissions?: string[]
+  createdAt: string
+  expiresAt: string
+  usedAt?: string
+  revokedAt?: string
+}
+
+/**
+ * Outcome of exchanging a refresh token
+ * On success, token and record are its replacement and accessJti identifies the access token to mint
+ * On reuse, the family has been revoked and revokedAccessJtis lists access tokens that may still be live
+ */
+export type RefreshTokenExchange =
+  | { success: true; token: string; record: RefreshTokenRecord; accessJti: string }
+  | {
+      success: false
+      error: string
+      sub?: string // Subject of a refresh token that was found but refused
+      reused?: boolean
+      familyId?: string
+      revokedAccessJtis?: string[]
+    }
+
+/**
+ * Generate a new refresh token: the prefix followed by 32 random bytes in hex
+ */
+export function generateRefreshToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return `${REFRESH_TOKEN_PREFIX}${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`
+}
+
+/**
+ * Map a refresh_tokens row to a record
+ */
+export function mapRefreshTokenRow(row: Record<string, unknown>): RefreshTokenRecord {
+  let permissions: unknown
+  try {
+    permissions = row.permissions ? JSON.parse(String(row.permissions)) : undefined
+  } catch {
+    permissions = undefined
+  }
+
+  return {
+    id: row.id as string,
+    familyId: row.family_id as string,
+    sub: row.sub as string,
+    createdAt: row.created_at as string,
+    expiresAt: row.expires_at as string,
+    ...(Array.isArray(permissions)
+      ? { permissions: permissions.filter((p): p is string => typeof p === "string") }
+      : {}),
+    ...(row.used_at ? { usedAt: row.used_at as string } : {}),
+    ...(row.revoked_at ? { revokedAt: row.revoked_at as string } : {})
+  }
+}
+
+/**
+ * Revoke every refresh token in a family
+ * Returns the access tokens minted from the family within the access token lifetime, which may still be live
+ */
+export async function revokeRefreshTokenFamily(db: D1Database, familyId: string, now = Date.now()): Promise<string[]> {
+  const [live] = await db.batch<{ access_jti: string }>([
+    db
+      .prepare("SELECT access_jti FROM refresh_tokens WHERE family_id = ? AND access_jti IS NOT NULL AND used_at >= ?")
+      .bind(familyId, new Date(now - ACCESS_TOKEN_TTL_SECONDS * 1000).toISOString()),
+    db
+      .prepare("UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL")
+      .bind(new Date(now).toISOString(), familyId)
+  ])
+
+  return (live?.results ?? []).map((row) => row.access_jti)
+}
+
+/**
+ * Revoke access tokens minted from a revoked family; the KV entries outlive the tokens themselves
+ */
+export async function revokeAccessTokens(kv: KVNamespace, jtis: string[]): Promise<void> {
+  await Promise.all(
+    jtis.map(async (jti) => {
+      await kv.put(`token:${jti}:revoked`, "true", { expirationTtl: ACCESS_TOKEN_TTL_SECONDS + 60 })
+      cacheTokenRevocation(jti, true)
+    })
+  )
+}
+
+/**
+ * Revoke every refresh token family started before a cutoff (epoch seconds), for one subject or for everyone
+ * A family starts with its oldest token, so rotating after the cutoff doesn't save it; returns the tokens revoked
+ */
+export async function revokeRefreshTokensIssuedBefore(
+  db: D1Database,
+  cutoff: number,
+  sub?: string,
+  now = Date.now()
+): Promise<number> {
+  const result = await db
+    .prepare(
+      `UPDATE refresh_tokens SET revoked_at = ?1 WHERE revoked_at IS NULL AND family_id IN (
+         SELECT family_id FROM refresh_tokens WHERE ?2 IS NULL OR sub = ?2
+         GROUP BY family_id HAVING MIN(created_at) < ?3
+       )`
+    )
+    .bind(new Date(now).toISOString(), sub ?? null, new Date(cutoff * 1000).toISOString())
+    .run()
+
+  return result.meta.changes
+}
+
+/**
+ * Exchange a refresh token for its replacement, marking it used
+ * Replacements keep the family's original expiry, so refreshing can't extend a session forever
+ * Presenting a token that was already used revokes its whole family
+ * With KV, bulk revocation cutoffs for the token's subject are honoured too
+ * beforeCommit runs once the token is accepted, before it is marked used; if it throws, the token stays unused
+ */
+export async function rotateRefreshToken(
+  db: D1Database,
+  token: string,
+  now = Date.now(),
+  kv?: KVNamespace,
+  beforeCommit?: (replacement: RefreshTokenRecord, accessJti: string) => Promise<void>
+): Promise<RefreshTokenExchange> {
+  if (!token.startsWith(REFRESH_TOKEN_PREFIX)) {
+    return { success: false, error: "Invalid refresh token" }
+  }
+
+  const row = await db
+    .prepare("SELECT * FROM refresh_tokens WHERE token_hash = ?")
+    .bind(await hashAPIKey(token))
+    .first<Record<string, unknown>>()
+  if (!row) {
+    return { success: false, error: "Invalid refresh token" }
+  }
+
+  const record = mapRefreshTokenRow(row)
+  if (record.revokedAt || (kv && (await isRevokedByCutoff(kv, record.sub, record.createdAt)))) {
+    return { success: false, error: "Refresh token has been revoked", sub: record.sub }
+  }
+
+  const reuse = async (): Promise<RefreshTokenExchange> => ({
+    success: false,
+    error: "Refresh token reuse detected; all tokens in its family have been revoked",
+    sub: record.sub,
+    reused: true,
+    familyId: record.familyId,
+    revokedAccessJtis: await revokeRefreshTokenFamily(db, record.familyId, now)
+  })
+
+  if (record.usedAt) {
+    return reuse()
+  }
+  if (new Date(record.expiresAt).getTime() <= now) {
+    return { success: false, error: "Refresh token expired", sub: record.sub }
+  }
+
+  const accessJti = crypto.randomUUID()
+  const usedAt = new Date(now).toISOString()
+  const replacement: RefreshTokenRecord = {
+    id: crypto.randomUUID(),
+    familyId: record.familyId,
+    sub: record.sub,
+    createdAt: usedAt,
+    expiresAt: record.expiresAt,
+    ...(record.permissions ? { permissions: record.permissions } : {})
+  }
+  const replacementToken = generateRefreshToken()
+
+  // Mint the access token first, so a signing failure doesn't burn the client's only refresh token
+  await beforeCommit?.(replacement, accessJti)
+
+  // Claiming the token and inserting its replacement commit together, so a failed insert doesn't burn the
+  // client's only refresh token. Only one exchange can claim it: the replacement is only inserted when this
+  // exchange's access_jti won the claim, and a concurrent exchange that loses the race counts as reuse
+  const [claimed] = await db.batch([
+    db
+      .prepare(
+        "UPDATE refresh_tokens SET used_at = ?, access_jti = ? WHERE id = ? AND used_at IS NULL AND revoked_at IS NULL"
+      )
+      .bind(usedAt, accessJti, record.id),
+    db
+      .prepare(
+        `INSERT INTO refresh_tokens (id, family_id, token_hash, sub, permissions, created_at, expires_at)
+         SELECT ?, ?, ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM refresh_tokens WHERE id = ? AND access_jti = ?)`
+      )
+      .bind(
+        replacement.id,
+        replacement.familyId,
+        await hashAPIKey(replacementToken),
+        replacement.sub,
+        replacement.permissions ? JSON.stringify(replacement.permissions) : null,
+        replacement.createdAt,
+        replacement.expiresAt,
+        record.id,
+        accessJti
+      )
+  ])
+  if (!claimed?.meta.changes) {
+    return reuse()
+  }
+
+  return { success: true, token: replacementToken, record: replacement, accessJti }
+}
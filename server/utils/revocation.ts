@@ -0,0 +1,166 @@
+import { matchesPermission } from "./permissions"
+
+/**
+ * Whether a token is revoked; unknown when the revocation state couldn't be read
+ */
+export type RevocationState = "active" | "revoked" | "unknown"
+
+/**
+ * Permission prefixes that refuse requests when revocation state is unknown, unless configured otherwise
+ */
+export const DEFAULT_REVOCATION_FAIL_CLOSED = ["admin", "ai"]
+
+/**
+ * How long an isolate trusts a revocation lookup; KV changes reach other isolates within this time
+ */
+export const REVOCATION_CACHE_TTL_MS = 30_000
+
+const REVOCATION_CACHE_MAX_ENTRIES = 1000
+
+/**
+ * KV keys holding revocation state
+ * Bulk revocations store a cutoff in epoch seconds: tokens issued before it are revoked
+ */
+export function getRevocationKeys(jti?: string, sub?: string) {
+  return {
+    ...(jti ? { token: `token:${jti}:revoked` } : {}),
+    issuedBefore: "revocation:issued-before",
+    ...(sub ? { subjectIssuedBefore: `revocation:sub:${sub}:issued-before` } : {})
+  }
+}
+
+/**
+ * Least-recently-used cache whose entries also expire after a fixed time
+ */
+export function createLRUCache<V>(maxEntries: number, ttlMs: number) {
+  // Map iterates in insertion order, so re-inserting on access keeps the least recently used first
+  const entries = new Map<string, { value: V; expiresAt: number }>()
+
+  return {
+    get(key: string, now = Date.now()): V | undefined {
+      const entry = entries.get(key)
+      if (!entry) {
+        return undefined
+      }
+
+      entries.delete(key)
+      if (entry.expiresAt <= now) {
+        return undefined
+      }
+      entries.set(key, entry)
+      return entry.value
+    },
+
+    set(key: string, value: V, now = Date.now()): void {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: now + ttlMs })
+
+      const oldest = entries.keys().next().value
+      if (entries.size > maxEntries && oldest !== undefined) {
+        entries.delete(oldest)
+      }
+    },
+
+    clear(): void {
+      entries.clear()
+    },
+
+    get size(): number {
+      return entries.size
+    }
+  }
+}
+
+/**
+ * Revocation lookups cached per isolate, so most requests don't read KV; null caches a missing key
+ */
+export const revocationCache = createLRUCache<string | null>(REVOCATION_CACHE_MAX_ENTRIES, REVOCATION_CACHE_TTL_MS)
+
+async function readRevocationKey(kv: KVNamespace, key: string): Promise<string | null> {
+  const cached = revocationCache.get(key)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const value = await kv.get(key)
+  revocationCache.set(key, value)
+  return value
+}
+
+/**
+ * Latest bulk revocation cutoff (epoch seconds) covering a subject, whether set for everyone or for the subject
+ * Credentials issued before it are revoked
+ */
+export async function getRevocationCutoff(kv: KVNamespace, sub: string): Promise<number> {
+  const keys = getRevocationKeys(undefined, sub)
+  const [issuedBefore, subjectIssuedBefore] = await Promise.all([
+    readRevocationKey(kv, keys.issuedBefore),
+    keys.subjectIssuedBefore ? readRevocationKey(kv, keys.subjectIssuedBefore) : null
+  ])
+
+  return Math.max(Number(issuedBefore) || 0, Number(subjectIssuedBefore) || 0)
+}
+
+/**
+ * Whether a credential issued at a time (ISO 8601) falls under a bulk revocation of its subject
+ * Covers the credentials that mint tokens, such as refresh tokens and OAuth client secrets
+ */
+export async function isRevokedByCutoff(kv: KVNamespace, sub: string, issuedAt: string): Promise<boolean> {
+  return Date.parse(issuedAt) < (await getRevocationCutoff(kv, sub)) * 1000
+}
+
+/**
+ * Check whether a token is revoked by its jti, or by a bulk revocation of its subject or issue time
+ */
+export async function checkTokenRevocation(
+  kv: KVNamespace,
+  token: { jti?: string; sub: string; iat: number }
+): Promise<RevocationState> {
+  const keys = getRevocationKeys(token.jti)
+
+  try {
+    const [revoked, cutoff] = await Promise.all([
+      keys.token ? readRevocationKey(kv, keys.token) : null,
+      getRevocationCutoff(kv, token.sub)
+    ])
+
+    if (revoked === "true") {
+      return "revoked"
+    }
+
+    return token.iat < cutoff ? "revoked" : "active"
+  } catch (error) {
+    console.error("Failed to check token revocation:", error)
+    return "unknown"
+  }
+}
+
+/**
+ * Whether a resource refuses requests when revocation state is unknown
+ * Prefixes match like grants (ai covers ai:alt), so * makes every resource fail closed
+ */
+export function isRevocationFailClosed(resource: string, failClosedPrefixes: string[]): boolean {
+  return failClosedPrefixes.some((prefix) => matchesPermission(prefix, resource))
+}
+
+/**
+ * Record a single token's revocation in this isolate's cache, after writing it to KV
+ */
+export function cacheTokenRevocation(jti: string, revoked: boolean): void {
+  revocationCache.set(`token:${jti}:revoked`, revoked ? "true" : null)
+}
+
+/**
+ * Revoke every token issued before a cutoff (epoch seconds), for one subject or for everyone
+ * An existing later cutoff is kept, so a bulk revocation never un-revokes tokens; returns the cutoff in force
+ */
+export async function revokeTokensIssuedBefore(kv: KVNamespace, cutoff: number, sub?: string): Promise<number> {
+  const keys = getRevocationKeys(undefined, sub)
+  const key = keys.subjectIssuedBefore ?? keys.issuedBefore
+
+  const effective = Math.max(cutoff, Number(await kv.get(key)) || 0)
+  await kv.put(key, String(effective))
+  revocationCache.set(key, String(effective))
+
+  return effective
+}
@@ -44,6 +44,12 @@ export const JWTPayloadSchema = z.object({
   jti: z.string().optional()
 })
 
+// IP and origin binding claims; anything but a list of strings is refused before the binding is checked
+export const TokenBindingClaimsSchema = z.object({
+  ip_allow: z.array(z.string()).optional(),
+  origin_allow: z.array(z.string()).optional()
+})
+
 export const JWTDetailsSchema = z.object({
   sub: z.string(),
   iat: z.number(),
@@ -232,6 +238,22 @@ export const EnhancedPingResponseSchema = z.object({
 })
 
 // URL redirect schemas (for /go endpoints)
+export const RedirectRuleSchema = z.object({
+  type: z.enum(["country", "platform", "language"]),
+  values: z
+    .array(z.string().regex(/^[\w-]+$/))
+    .min(1)
+    .describe("Country codes (GB), platforms (ios, android, desktop) or language tags (en, pt-BR)"),
+  url: z.string().url()
+})
+
+export const RedirectVariantSchema = z.object({
+  url: z.string().url(),
+  weight: z.number().int().min(1).max(1000)
+})
+
+export const RedirectStatusCodeSchema = z.union([z.literal(301), z.literal(302), z.literal(307), z.literal(308)])
+
 export const UrlRedirectSchema = z.object({
   slug: z
     .string()
@@ -241,8 +263,17 @@ export const UrlRedirectSchema = z.object({
   url: z.string().url(),
   title: z.string().optional(),
   description: z.string().optional(),
+  not_before: z.string().datetime().optional(),
+  expires_at: z.string().datetime().optional(),
+  max_clicks: z.number().int().positive().optional(),
+  max_clicks_baseline: z.number().int().nonnegative().optional(),
+  forward_query: z.boolean().optional(),
+  forward_path: z.boolean().optional(),
+  status_code: RedirectStatusCodeSchema.optional(),
+  rules: z.array(RedirectRuleSchema).optional(),
+  variants: z.array(RedirectVariantSchema).optional(),
   clicks: z.number().default(0),
-  created_at: z.string(),
+  created_at: z.string().optional(),
   updated_at: z.string().optional()
 })
 
@@ -254,7 +285,79 @@ export const CreateRedirectSchema = z.object({
     .regex(/^[\w-]+$/),
   url: z.string().url(),
   title: z.string().optional(),
-  description: z.string().optional()
+  description: z.string().optional(),
+  not_before: z.string().datetime().optional().describe("Redirect is not followed before this time"),
+  expires_at: z.string().datetime().optional().describe("Redirect returns 410 Gone from this time"),
+  max_clicks: z.number().int().positive().optional().describe("Redirect returns 410 Gone after this many clicks"),
+  forward_query: z.boolean().optional().describe("Append the incoming query string (e.g. UTM tags) to the destination"),
+  forward_path: z.boolean().optional().describe("Forward extra path segments (/go/gh/some/repo) onto the destination"),
+  status_code: RedirectStatusCodeSchema.optional().describe("Redirect status code (default 302)"),
+  rules: z
+    .array(RedirectRuleSchema)
+    .max(20)
+    .optional()
+    .describe("Ordered targeting rules; the first match wins and url is the fallback"),
+  variants: z
+    .array(RedirectVariantSchema)
+    .max(10)
+    .optional()
+    .describe("Weighted A/B destinations used instead of url when no rule matches")
+})
+
+export const UpdateRedirectSchema = CreateRedirectSchema.omit({ slug: true }).partial().extend({
+  // null clears a previously set limit
+  not_before: z.string().datetime().nullable().optional(),
+  expires_at: z.string().datetime().nullable().optional(),
+  max_clicks: z.number().int().positive().nullable().optional()
+})
+
+export const RedirectListSchema = z.object({
+  redirects: z.array(UrlRedirectSchema)
+})
+
+export const RedirectClickBucketSchema = z.object({
+  bucket: z.string(),
+  clicks: z.number(),
+  countries: z.record(z.string(), z.number()),
+  datacenters: z.record(z.string(), z.number()),
+  referrers: z.record(z.string(), z.number())
+})
+
+export const RedirectStatsSchema = z.object({
+  slug: z.string(),
+  granularity: z.enum(["hourly", "daily"]),
+  from: z.string(),
+  to: z.string(),
+  total_clicks: z.number(),
+  buckets: z.array(RedirectClickBucketSchema)
+})
+
+export const RedirectDestinationHealthSchema = z.object({
+  source: z.string().describe("Destination checked: rule:{index} or variant:{index}"),
+  url: z.string(),
+  ok: z.boolean(),
+  status: z.number().nullable(),
+  latency_ms: z.number(),
+  error: z.string().optional()
+})
+
+export const RedirectHealthSchema = z.object({
+  slug: z.string(),
+  url: z.string(),
+  ok: z.boolean().describe("Whether the URL and every rule and variant destination are healthy"),
+  status: z.number().nullable(),
+  latency_ms: z.number(),
+  checked_at: z.string(),
+  error: z.string().optional(),
+  destinations: z.array(RedirectDestinationHealthSchema).optional()
+})
+
+export const RedirectHealthReportSchema = z.object({
+  total: z.number(),
+  healthy: z.number(),
+  failing: z.number(),
+  unchecked: z.array(z.string()),
+  redirects: z.array(RedirectHealthSchema)
 })
 
 // Token management schemas
@@ -266,6 +369,84 @@ export const TokenUsageSchema = z.object({
   last_used: z.string().optional()
 })
 
+// RFC 7662 introspection response, extended with the API's permission, revocation and quota details
+export const TokenIntrospectionSchema = z.object({
+  active: z.boolean(),
+  token_type: z.enum(["jwt", "api_key"]).optional(),
+  sub: z.string().optional(),
+  jti: z.string().optional(),
+  iat: z.number().optional(),
+  exp: z.number().optional(),
+  scope: z.string().optional(),
+  permissions: z.array(z.string()).optional(),
+  effective_scopes: z.array(z.string()).optional(),
+  revoked: z.boolean().optional(),
+  max_requests: z.number().optional(),
+  request_count: z.number().optional(),
+  remaining_requests: z.number().optional()
+})
+
+// Bulk revocation of every token for a subject and/or issued before a time (POST /api/token/revoke)
+export const TokenBulkRevokeRequestSchema = z
+  .object({
+    sub: z.string().min(1).optional(),
+    issued_before: z.string().datetime().optional()
+  })
+  .refine((request) => request.sub || request.issued_before, {
+    message: 'Provide "sub", "issued_before" or both'
+  })
+
+export const TokenBulkRevokeResultSchema = z.object({
+  sub: z.string().optional(),
+  issued_before: z.string(),
+  refresh_tokens_revoked: z.number(),
+  message: z.string()
+})
+
+// Audit log query (GET /api/admin/audit); query string values arrive as strings
+export const AuthEventQuerySchema = z.object({
+  sub: z.string().min(1).optional(),
+  jti: z.string().min(1).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(50)
+})
+
+export const AuthEventSchema = z.object({
+  id: z.number().optional(),
+  createdAt: z.string(),
+  decision: z.enum(["allowed", "denied"]),
+  resource: z.string(),
+  sub: z.string().optional(),
+  jti: z.string().optional(),
+  kid: z.string().optional().describe("Signing key that verified the token"),
+  apiKeyId: z.string().optional().describe("API key that authenticated the request"),
+  reason: z.string().optional(),
+  statusCode: z.number().optional(),
+  ip: z.string().optional(),
+  country: z.string().optional(),
+  ray: z.string().optional()
+})
+
+export const AuthEventListSchema = z.object({
+  events: z.array(AuthEventSchema)
+})
+
+// Refresh token exchange for a short-lived access token (POST /api/auth/token)
+export const AuthTokenRequestSchema = z.object({
+  grant_type: z.literal("refresh_token").optional(),
+  refresh_token: z.string().min(1)
+})
+
+export const AuthTokenResponseSchema = z.object({
+  access_token: z.string(),
+  token_type: z.literal("Bearer"),
+  expires_in: z.number(),
+  refresh_token: z.string(),
+  refresh_token_expires_at: z.string()
+})
+
 export const TokenMetricsSchema = z.object({
   ok: z.literal(true),
   data: z.object({
@@ -421,7 +602,18 @@ export type PingResponse = z.infer<typeof PingResponseSchema>
 export type EnhancedPingResponse = z.infer<typeof EnhancedPingResponseSchema>
 export type UrlRedirect = z.infer<typeof UrlRedirectSchema>
 export type CreateRedirect = z.infer<typeof CreateRedirectSchema>
+export type UpdateRedirect = z.infer<typeof UpdateRedirectSchema>
+export type RedirectList = z.infer<typeof RedirectListSchema>
+export type RedirectStats = z.infer<typeof RedirectStatsSchema>
+export type RedirectHealthReport = z.infer<typeof RedirectHealthReportSchema>
 export type TokenUsage = z.infer<typeof TokenUsageSchema>
+export type TokenIntrospection = z.infer<typeof TokenIntrospectionSchema>
+export type TokenBulkRevokeRequest = z.infer<typeof TokenBulkRevokeRequestSchema>
+export type TokenBulkRevokeResult = z.infer<typeof TokenBulkRevokeResultSchema>
+export type AuthEventQueryParams = z.infer<typeof AuthEventQuerySchema>
+export type AuthEventList = z.infer<typeof AuthEventListSchema>
+export type AuthTokenRequest = z.infer<typeof AuthTokenRequestSchema>
+export type AuthTokenResponse = z.infer<typeof AuthTokenResponseSchema>
 export type TokenMetrics = z.infer<typeof TokenMetricsSchema>
 export type AiSocialNetwork = z.infer<typeof AiSocialNetworkEnum>
 export type AiSocialStrategy = z.infer<typeof AiSocialStrategyEnum>
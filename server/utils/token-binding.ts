@@ -0,0 +1,156 @@
+/**
+ * Claims that pin a token to where it may be used from
+ */
+export interface TokenBindingClaims {
+  ip_allow?: string[] // IP addresses or CIDR ranges, checked against cf-connecting-ip
+  origin_allow?: string[] // Origins, checked against the Origin header
+}
+
+/**
+ * Where a request came from
+ */
+export interface RequestSource {
+  ip?: string
+  origin?: string
+}
+
+interface ParsedIP {
+  version: 4 | 6
+  value: bigint
+}
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split(".")
+  if (parts.length !== 4) {
+    return null
+  }
+
+  let value = 0n
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) {
+      return null
+    }
+    value = (value << 8n) | BigInt(part)
+  }
+  return value
+}
+
+function parseIPv6(ip: string): bigint | null {
+  let address = ip
+
+  // An embedded IPv4 tail (::ffff:192.0.2.1) stands for the last two groups
+  const lastColon = address.lastIndexOf(":")
+  const tail = address.slice(lastColon + 1)
+  if (tail.includes(".")) {
+    const ipv4 = parseIPv4(tail)
+    if (ipv4 === null) {
+      return null
+    }
+    address = `${address.slice(0, lastColon + 1)}${(ipv4 >> 16n).toString(16)}:${(ipv4 & 0xffffn).toString(16)}`
+  }
+
+  const halves = address.split("::")
+  if (halves.length > 2) {
+    return null
+  }
+
+  const head = halves[0] ? halves[0].split(":") : []
+  const rest = halves[1] ? halves[1].split(":") : []
+  const missing = 8 - head.length - rest.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null
+  }
+
+  let value = 0n
+  for (const group of [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...rest]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) {
+      return null
+    }
+    value = (value << 16n) | BigInt(`0x${group}`)
+  }
+  return value
+}
+
+/**
+ * Parse an IPv4 or IPv6 address, or null if it isn't one
+ */
+export function parseIP(ip: string): ParsedIP | null {
+  const ipv4 = parseIPv4(ip)
+  if (ipv4 !== null) {
+    return { version: 4, value: ipv4 }
+  }
+
+  const ipv6 = ip.includes(":") ? parseIPv6(ip) : null
+  return ipv6 === null ? null : { version: 6, value: ipv6 }
+}
+
+/**
+ * Split a range into its network and prefix length; a bare address is a single-host range
+ */
+function parseIPRange(range: string): { network: ParsedIP; prefix: number } | null {
+  const [base = "", prefix] = range.split("/")
+  const network = parseIP(base)
+  if (!network) {
+    return null
+  }
+
+  const bits = network.version === 4 ? 32 : 128
+  const length = prefix === undefined ? bits : /^\d+$/.test(prefix) ? Number(prefix) : Number.NaN
+  return length >= 0 && length <= bits ? { network, prefix: length } : null
+}
+
+/**
+ * Whether a string is an IP address or CIDR range
+ */
+export function isValidIPRange(range: string): boolean {
+  return parseIPRange(range) !== null
+}
+
+/**
+ * Whether an IP address falls inside an address or CIDR range of the same IP version
+ */
+export function isIPInRange(ip: string, range: string): boolean {
+  const address = parseIP(ip)
+  const parsed = parseIPRange(range)
+  if (!address || !parsed || address.version !== parsed.network.version) {
+    return false
+  }
+
+  const shift = BigInt((address.version === 4 ? 32 : 128) - parsed.prefix)
+  return address.value >> shift === parsed.network.value >> shift
+}
+
+/**
+ * Normalise an origin for comparison (scheme and host lowercased, default port dropped), or null if invalid
+ */
+export function normaliseOrigin(origin: string): string | null {
+  try {
+    const { origin: normalised } = new URL(origin)
+    return normalised === "null" ? null : normalised
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check a token's binding claims against where the request came from
+ * Returns why the request is refused, or null when the token may be used here
+ * Requests without an IP or Origin are refused by tokens that pin them
+ */
+export function checkTokenBinding(claims: TokenBindingClaims, source: RequestSource): string | null {
+  if (claims.ip_allow?.length) {
+    const { ip } = source
+    if (!ip || !claims.ip_allow.some((range) => isIPInRange(ip, range))) {
+      return `Token not allowed from IP address ${ip || "unknown"}`
+    }
+  }
+
+  if (claims.origin_allow?.length) {
+    const origin = source.origin ? normaliseOrigin(source.origin) : null
+    if (!origin || !claims.origin_allow.some((allowed) => normaliseOrigin(allowed) === origin)) {
+      return `Token not allowed from origin ${source.origin || "unknown"}`
+    }
+  }
+
+  return null
+}
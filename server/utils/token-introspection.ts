@@ -0,0 +1,71 @@
+import type { H3Event } from "h3"
+import { API_KEY_PREFIX } from "./api-keys"
+import {
+  authenticateAPIKey,
+  getJWTClaimExpectations,
+  getJWTPublicKeyResolver,
+  getJWTVerificationSecrets,
+  getTokenRevocationState,
+  hasPermission,
+  verifyJWT
+} from "./auth"
+import type { AuthResult } from "./auth"
+import { ENDPOINT_SCOPES } from "./permissions"
+import type { TokenIntrospection } from "./schemas"
+import { getTokenMaxRequests, getTokenUsage } from "./token-usage"
+
+/**
+ * Verify a JWT or API key passed as a string; API keys are recognised by their prefix
+ */
+export function verifyCredential(event: H3Event, credential: string): Promise<AuthResult> {
+  return credential.startsWith(API_KEY_PREFIX)
+    ? authenticateAPIKey(event, credential)
+    : verifyJWT(
+        credential,
+        getJWTVerificationSecrets(event),
+        getJWTPublicKeyResolver(event),
+        getJWTClaimExpectations(event)
+      )
+}
+
+/**
+ * Describe a verified credential: its grants, the endpoint scopes they cover, revocation and remaining quota
+ * Revoked credentials are inactive, as are those whose revocation state can't be read
+ * The quota is only read, so introspecting doesn't use it up; single-use tokens have a quota of one
+ */
+export async function introspectCredential(event: H3Event, verification: AuthResult): Promise<TokenIntrospection> {
+  if (!verification.success || !verification.payload) {
+    return { active: false }
+  }
+
+  const { payload } = verification
+  const env = event.context.cloudflare?.env as { KV?: KVNamespace; D1?: D1Database }
+  const permissions = payload.permissions ?? [payload.sub]
+
+  const singleUse = payload.use === "once"
+
+  const [revocation, maxRequests, usage] = await Promise.all([
+    getTokenRevocationState(event, payload),
+    singleUse ? 1 : payload.jti && env?.KV ? getTokenMaxRequests(env.KV, payload.jti) : undefined,
+    payload.jti && env?.D1 ? getTokenUsage(env.D1, payload.jti) : null
+  ])
+  const revoked = revocation === "revoked"
+  const requestCount = usage?.requestCount ?? 0
+
+  return {
+    active: revocation === "active" && !(singleUse && requestCount > 0),
+    token_type: verification.apiKeyId ? "api_key" : "jwt",
+    sub: payload.sub,
+    ...(payload.jti ? { jti: payload.jti } : {}),
+    iat: payload.iat,
+    ...(payload.exp ? { exp: payload.exp } : {}),
+    scope: permissions.join(" "),
+    permissions,
+    effective_scopes: ENDPOINT_SCOPES.filter((scope) => hasPermission(permissions, scope)),
+    revoked,
+    ...(payload.jti ? { request_count: requestCount } : {}),
+    ...(maxRequests === undefined
+      ? {}
+      : { max_requests: maxRequests, remaining_requests: Math.max(maxRequests - requestCount, 0) })
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Per-token request counters live in D1: a single UPSERT increments them atomically,
+ * which KV read-modify-write cannot do under concurrent requests
+ */
+export const TOKEN_USAGE_TABLE_SQL = `
+  CREATE TABLE IF NOT EXISTS token_usage (
+    jti TEXT PRIMARY KEY,
+    request_count INTEGER NOT NULL DEFAULT 0,
+    last_used TEXT
+  )
+`
+
+/**
+ * Usage recorded for a token
+ */
+export interface TokenUsageRecord {
+  requestCount: number
+  lastUsed: string | null
+}
+
+/**
+ * Outcome of counting a request against a token's quota
+ */
+export interface TokenQuotaResult {
+  allowed: boolean
+  requestCount: number
+  maxRequests?: number
+  remaining?: number
+}
+
+/**
+ * Request quota for a token, or undefined if the token is unlimited
+ */
+export async function getTokenMaxRequests(kv: KVNamespace, jti: string): Promise<number | undefined> {
+  const value = await kv.get(`token:${jti}:max-requests`)
+  const maxRequests = value ? Number.parseInt(value, 10) : Number.NaN
+  return Number.isNaN(maxRequests) ? undefined : maxRequests
+}
+
+/**
+ * Count a request against a token and stamp its last use
+ * The quota check is part of the same statement, so concurrent requests can't overshoot it;
+ * requests over quota are rejected without being counted
+ */
+export async function recordTokenUsage(
+  db: D1Database,
+  jti: string,
+  maxRequests?: number,
+  now = new Date()
+): Promise<TokenQuotaResult> {
+  if (maxRequests !== undefined && maxRequests <= 0) {
+    const usage = await getTokenUsage(db, jti)
+    return { allowed: false, requestCount: usage?.requestCount ?? 0, maxRequests, remaining: 0 }
+  }
+
+  const row = await db
+    .prepare(
+      `INSERT INTO token_usage (jti, request_count, last_used) VALUES (?1, 1, ?2)
+       ON CONFLICT (jti) DO UPDATE SET request_count = request_count + 1, last_used = excluded.last_used
+       WHERE ?3 IS NULL OR token_usage.request_count < ?3
+       RETURNING request_count`
+    )
+    .bind(jti, now.toISOString(), maxRequests ?? null)
+    .first<{ request_count: number }>()
+
+  // No row comes back when the quota check stopped the update
+  if (!row) {
+    return { allowed: false, requestCount: maxRequests ?? 0, maxRequests, remaining: 0 }
+  }
+
+  return {
+    allowed: true,
+    requestCount: row.request_count,
+    maxRequests,
+    remaining: maxRequests === undefined ? undefined : Math.max(maxRequests - row.request_count, 0)
+  }
+}
+
+/**
+ * Load the usage recorded for a token, or null if it has never been used
+ */
+export async function getTokenUsage(db: D1Database, jti: string): Promise<TokenUsageRecord | null> {
+  const row = await db
+    .prepare("SELECT request_count, last_used FROM token_usage WHERE jti = ?")
+    .bind(jti)
+    .first<{ request_count: number; last_used: string | null }>()
+
+  return row ? { requestCount: row.request_count, lastUsed: row.last_used } : null
+}
@@ -32,6 +32,28 @@ export function getValidatedUUID(event: H3Event, paramName = "uuid"): string {
   return uuid
 }
 
+/**
+ * Redirect slug validation regex (matches UrlRedirectSchema)
+ */
+export const SLUG_REGEX = /^[\w-]{1,50}$/
+
+/**
+ * Validate and extract a redirect slug from route parameter
+ */
+export function getValidatedSlug(event: H3Event, paramName = "slug"): string {
+  const slug = getRouterParam(event, paramName)
+
+  if (!slug) {
+    throw createApiError(400, `${paramName} parameter is required`)
+  }
+
+  if (!SLUG_REGEX.test(slug)) {
+    throw createApiError(400, "Invalid slug format")
+  }
+
+  return slug
+}
+
 /**
  * Common URL validation
  */
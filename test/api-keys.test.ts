@@ -0,0 +1,122 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import type { H3Event } from "h3"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { API_KEY_PREFIX, generateAPIKey, hashAPIKey, verifyAPIKey } from "~/server/utils/api-keys"
+import { authorizeEndpoint } from "~/server/utils/auth"
+import { createMockD1 } from "./cloudflare-mocks"
+
+// In-memory stand-in for the api_keys table, looked up by key_hash; the quota UPSERT always counts a first request
+function createAPIKeysD1(rows: Record<string, unknown>[]) {
+  return createMockD1((sql, args) =>
+    sql.includes("api_keys")
+      ? { results: rows.filter((row) => row.key_hash === args[0]) }
+      : sql.includes("token_usage")
+        ? { results: [{ request_count: 1 }] }
+        : undefined
+  )
+}
+
+async function createKeyRow(key: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: "key-1",
+    key_hash: await hashAPIKey(key),
+    description: "Metrics scraper",
+    permissions: JSON.stringify(["api:metrics"]),
+    created_at: "2026-01-01T00:00:00.000Z",
+    expires_at: null,
+    revoked_at: null,
+    ...overrides
+  }
+}
+
+describe("API keys", () => {
+  it("should generate prefixed random keys and hash them", async () => {
+    const key = generateAPIKey()
+
+    expect(key).toMatch(new RegExp(`^${API_KEY_PREFIX}[0-9a-f]{64}$`))
+    expect(generateAPIKey()).not.toBe(key)
+    expect(await hashAPIKey(key)).toMatch(/^[0-9a-f]{64}$/)
+    expect(await hashAPIKey(key)).toBe(await hashAPIKey(key))
+  })
+
+  describe("verifyAPIKey", () => {
+    it("should return a token-shaped payload for valid keys", async () => {
+      const key = generateAPIKey()
+      const db = createAPIKeysD1([await createKeyRow(key, { expires_at: "2027-01-01T00:00:00.000Z" })])
+
+      expect(await verifyAPIKey(db, key, Date.parse("2026-06-01T00:00:00.000Z"))).toEqual({
+        success: true,
+        apiKeyId: "key-1",
+        payload: {
+          sub: "api-key:key-1",
+          iat: Date.parse("2026-01-01T00:00:00.000Z") / 1000,
+          exp: Date.parse("2027-01-01T00:00:00.000Z") / 1000,
+          jti: "key-1",
+          permissions: ["api:metrics"]
+        }
+      })
+    })
+
+    it("should reject unknown, revoked and expired keys", async () => {
+      const revoked = generateAPIKey()
+      const expired = generateAPIKey()
+      const db = createAPIKeysD1([
+        await createKeyRow(revoked, { revoked_at: "2026-02-01T00:00:00.000Z" }),
+        await createKeyRow(expired, { expires_at: "2026-02-01T00:00:00.000Z" })
+      ])
+      const now = Date.parse("2026-06-01T00:00:00.000Z")
+
+      expect(await verifyAPIKey(db, generateAPIKey(), now)).toEqual({ success: false, error: "Invalid API key" })
+      expect(await verifyAPIKey(db, "not-a-key", now)).toEqual({ success: false, error: "Invalid API key" })
+      expect(await verifyAPIKey(db, revoked, now)).toEqual({ success: false, error: "API key has been revoked" })
+      expect(await verifyAPIKey(db, expired, now)).toEqual({ success: false, error: "API key expired" })
+    })
+  })
+
+  describe("authorizeEndpoint with X-API-Key", () => {
+    beforeEach(() => {
+      const globals = global as unknown as Record<string, unknown>
+      globals.getHeader = (event: H3Event, name: string) =>
+        (event as unknown as { node: { req: { headers: Record<string, string> } } }).node.req.headers[name]
+      globals.getQuery = () => ({})
+      globals.setHeader = () => {}
+      globals.useRuntimeConfig = () => ({ apiJwtSecret: "api-key-test-secret" })
+      vi.spyOn(console, "log").mockImplementation(() => {})
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    function createEvent(key: string, env: Record<string, unknown>) {
+      return {
+        node: { req: { headers: { "x-api-key": key } }, res: {} as ServerResponse },
+        req: {} as IncomingMessage,
+        context: { cloudflare: { env } }
+      } as unknown as H3Event
+    }
+
+    it("should authorize keys against their stored permissions", async () => {
+      const key = generateAPIKey()
+      const env = { D1: createAPIKeysD1([await createKeyRow(key)]) }
+
+      expect(await (await authorizeEndpoint("api", "metrics"))(createEvent(key, env))).toMatchObject({
+        success: true,
+        sub: "api-key:key-1",
+        apiKeyId: "key-1"
+      })
+      expect(await (await authorizeEndpoint("ai", "alt"))(createEvent(key, env))).toEqual({
+        success: false,
+        error: "Insufficient permissions for ai:alt"
+      })
+    })
+
+    it("should report 503 when D1 is unavailable", async () => {
+      expect(await (await authorizeEndpoint("api"))(createEvent(generateAPIKey(), {}))).toMatchObject({
+        success: false,
+        statusCode: 503
+      })
+    })
+  })
+})
@@ -0,0 +1,201 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import type { H3Event } from "h3"
+import { exportJWK, generateKeyPair, SignJWT } from "jose"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createAuthEvent, mapAuthEventRow, queryAuthEvents } from "~/server/utils/audit-log"
+import { authorizeEndpoint } from "~/server/utils/auth"
+import { getSigningKeyEntries } from "~/server/utils/jwks"
+import { createMockD1, createMockKV } from "./cloudflare-mocks"
+
+const secret = "audit-log-test-secret"
+
+function createEvent(headers: Record<string, string>, cloudflare?: Record<string, unknown>) {
+  return {
+    node: { req: { headers }, res: {} as ServerResponse },
+    req: {} as IncomingMessage,
+    context: cloudflare ? { cloudflare } : {}
+  } as unknown as H3Event
+}
+
+describe("Audit log", () => {
+  beforeEach(() => {
+    const globals = global as unknown as Record<string, unknown>
+    globals.getHeader = (event: H3Event, name: string) =>
+      (event as unknown as { node: { req: { headers: Record<string, string> } } }).node.req.headers[name]
+    globals.getQuery = () => ({})
+    globals.useRuntimeConfig = () => ({ apiJwtSecret: secret })
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("createAuthEvent", () => {
+    it("should record the request source and omit what Cloudflare didn't send", () => {
+      const event = createEvent({ "cf-connecting-ip": "203.0.113.7", "cf-ray": "8a1b2c3d4e5f-LHR" })
+
+      expect(
+        createAuthEvent(
+          event,
+          "api:redirects",
+          { success: false, error: "Insufficient permissions", statusCode: 403 },
+          { sub: "ci", jti: "jti-1" },
+          0
+        )
+      ).toEqual({
+        createdAt: "1970-01-01T00:00:00.000Z",
+        decision: "denied",
+        resource: "api:redirects",
+        sub: "ci",
+        jti: "jti-1",
+        reason: "Insufficient permissions",
+        statusCode: 403,
+        ip: "203.0.113.7",
+        ray: "8a1b2c3d4e5f-LHR"
+      })
+    })
+
+    it("should record allowed decisions without a reason", () => {
+      const authEvent = createAuthEvent(createEvent({}), "api", {
+        success: true,
+        payload: { sub: "ci", iat: 0 }
+      })
+
+      expect(authEvent).toMatchObject({ decision: "allowed", resource: "api", sub: "ci", statusCode: 200 })
+      expect(authEvent.reason).toBeUndefined()
+    })
+  })
+
+  it("should map rows, dropping empty columns", () => {
+    expect(
+      mapAuthEventRow({
+        id: 7,
+        created_at: "2026-01-01T00:00:00.000Z",
+        decision: "allowed",
+        resource: "ai:alt",
+        sub: "ci",
+        jti: null,
+        kid: "ec-1",
+        api_key_id: null,
+        reason: null,
+        status_code: 200,
+        ip: null,
+        country: "GB",
+        ray: null
+      })
+    ).toEqual({
+      id: 7,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      decision: "allowed",
+      resource: "ai:alt",
+      sub: "ci",
+      kid: "ec-1",
+      statusCode: 200,
+      country: "GB"
+    })
+  })
+
+  describe("queryAuthEvents", () => {
+    it("should filter, page and count", async () => {
+      const db = createMockD1((sql) =>
+        sql.startsWith("SELECT COUNT")
+          ? { results: [{ total: 42 }] }
+          : { results: [{ id: 1, created_at: "2026-01-01T00:00:00.000Z", decision: "denied", resource: "api" }] }
+      )
+
+      const { events, total } = await queryAuthEvents(db, {
+        sub: "ci",
+        from: "2026-01-01T00:00:00.000Z",
+        page: 3,
+        perPage: 10
+      })
+
+      expect(total).toBe(42)
+      expect(events).toEqual([{ id: 1, createdAt: "2026-01-01T00:00:00.000Z", decision: "denied", resource: "api" }])
+      expect(db.statements[0]).toEqual({
+        sql: "SELECT COUNT(*) AS total FROM auth_events WHERE sub = ? AND created_at >= ?",
+        args: ["ci", "2026-01-01T00:00:00.000Z"]
+      })
+      expect(db.statements[1]?.args).toEqual(["ci", "2026-01-01T00:00:00.000Z", 10, 20])
+      expect(db.statements[1]?.sql).toContain("ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?")
+    })
+
+    it("should query everything without filters", async () => {
+      const db = createMockD1((sql) => (sql.startsWith("SELECT COUNT") ? { results: [{ total: 0 }] } : undefined))
+
+      expect(await queryAuthEvents(db, { page: 1, perPage: 50 })).toEqual({
+        events: [],
+        total: 0
+      })
+      expect(db.statements[0]?.sql).toBe("SELECT COUNT(*) AS total FROM auth_events ")
+    })
+  })
+
+  describe("authorizeEndpoint", () => {
+    it("should record denials in the background with the token's sub and jti", async () => {
+      const token = await new SignJWT({ sub: "api:metrics", jti: "jti-audit" })
+        .setProtectedHeader({ alg: "HS256" })
+        .setIssuedAt()
+        .sign(new TextEncoder().encode(secret))
+      const db = createMockD1()
+      const waitUntil = vi.fn()
+      const event = createEvent(
+        { authorization: `Bearer ${token}`, "cf-ipcountry": "GB" },
+        { env: { API_JWT_SECRET: secret, D1: db }, context: { waitUntil } }
+      )
+
+      expect(await (await authorizeEndpoint("ai", "alt"))(event)).toMatchObject({ success: false })
+
+      expect(waitUntil).toHaveBeenCalledTimes(1)
+      await waitUntil.mock.calls[0]?.[0]
+      const insert = db.statements.find(({ sql }) => sql.includes("INSERT INTO auth_events"))
+      expect(insert?.args.slice(1, 5)).toEqual(["denied", "ai:alt", "api:metrics", "jti-audit"])
+      expect(insert?.args[10]).toBe("GB")
+    })
+
+    it("should record which signing key verified the token", async () => {
+      const { publicKey, privateKey } = await generateKeyPair("ES256", { extractable: true })
+      const jwk = { ...(await exportJWK(publicKey)), kid: "ec-1", alg: "ES256" }
+      const kv = createMockKV(
+        Object.fromEntries(getSigningKeyEntries({ kid: "ec-1", alg: "ES256", status: "primary", jwk }))
+      )
+      const token = await new SignJWT({ sub: "api", jti: "jti-ec" })
+        .setProtectedHeader({ alg: "ES256", kid: "ec-1" })
+        .setIssuedAt()
+        .sign(privateKey)
+      const db = createMockD1((sql) =>
+        sql.includes("INTO token_usage") ? { results: [{ request_count: 1 }] } : undefined
+      )
+      const waitUntil = vi.fn()
+      const event = createEvent(
+        { authorization: `Bearer ${token}` },
+        { env: { API_JWT_SECRET: secret, D1: db, KV: kv }, context: { waitUntil } }
+      )
+
+      expect(await (await authorizeEndpoint("api"))(event)).toMatchObject({ success: true, kid: "ec-1" })
+
+      await waitUntil.mock.calls[0]?.[0]
+      const insert = db.statements.find(({ sql }) => sql.includes("INSERT INTO auth_events"))
+      expect(insert?.sql).toContain("sub, jti, kid, api_key_id")
+      expect(insert?.args.slice(1, 7)).toEqual(["allowed", "api", "api", "jti-ec", "ec-1", null])
+    })
+
+    it("should record refused credentials without a subject", async () => {
+      const db = createMockD1()
+      const waitUntil = vi.fn()
+      const event = createEvent(
+        { authorization: "Bearer not-a-token" },
+        { env: { API_JWT_SECRET: secret, D1: db }, context: { waitUntil } }
+      )
+
+      expect(await (await authorizeEndpoint("api"))(event)).toMatchObject({ success: false })
+
+      await waitUntil.mock.calls[0]?.[0]
+      const insert = db.statements.find(({ sql }) => sql.includes("INSERT INTO auth_events"))
+      expect(insert?.args.slice(1, 7)).toEqual(["denied", "api", null, null, null, null])
+    })
+  })
+})
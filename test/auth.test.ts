@@ -1,17 +1,32 @@
 import type { IncomingMessage, ServerResponse } from "node:http"
 import type { H3Event } from "h3"
-import { SignJWT } from "jose"
+import { decodeJwt, decodeProtectedHeader, exportJWK, generateKeyPair, importJWK, SignJWT } from "jose"
 import { beforeEach, describe, expect, it, vi } from "vitest"
 import {
   authorizeEndpoint,
   checkEndpointPermission,
   extractToken,
+  getJWTClaimExpectations,
   getUserFromPayload,
   verifyJWT
 } from "~/server/utils/auth"
+import {
+  createKVPublicKeyResolver,
+  getJWKKey,
+  getSigningKey,
+  getSigningKeyEntries,
+  listPublicJWKs,
+  planKeyRotation
+} from "~/server/utils/jwks"
+import type { JWTSigningKey } from "~/server/utils/jwks"
+import { createMockKV } from "./cloudflare-mocks"
 
 // Mock H3Event for testing - this is a simplified version for unit testing
-function mockH3Event(headers: Record<string, string> = {}, query: Record<string, unknown> = {}): H3Event {
+function mockH3Event(
+  headers: Record<string, string> = {},
+  query: Record<string, unknown> = {},
+  cloudflareEnv?: Record<string, unknown>
+): H3Event {
   return {
     node: {
       req: {
@@ -21,7 +36,7 @@ function mockH3Event(headers: Record<string, string> = {}, query: Record<string,
     },
     query,
     __is_event__: true,
-    context: {},
+    context: cloudflareEnv ? { cloudflare: { env: cloudflareEnv } } : {},
     _handled: false,
     _onBeforeResponseCalled: false,
     _onAfterResponseCalled: false,
@@ -189,6 +204,302 @@ describe("Authentication System", () => {
       expect(result.success).toBe(false)
       expect(result.error).toContain("missing subject")
     })
+
+    it("should accept tokens signed with a previous secret during a rotation", async () => {
+      const now = Math.floor(Date.now() / 1000)
+      const sign = (secret: string) =>
+        new SignJWT({ sub: "test-user", iat: now })
+          .setProtectedHeader({ alg: "HS256" })
+          .sign(new TextEncoder().encode(secret))
+
+      expect((await verifyJWT(await sign("old-secret"), [testSecret, "old-secret"])).success).toBe(true)
+      expect((await verifyJWT(await sign(testSecret), [testSecret, "old-secret"])).success).toBe(true)
+      expect(await verifyJWT(await sign("old-secret"), testSecret)).toMatchObject({ success: false })
+      expect(await verifyJWT(await sign("other-secret"), [testSecret, "old-secret"])).toMatchObject({
+        success: false,
+        error: "signature verification failed"
+      })
+    })
+  })
+
+  describe("verifyJWT claim validation", () => {
+    async function sign(claims: Record<string, unknown>) {
+      return new SignJWT({ sub: "api", iat: Math.floor(Date.now() / 1000), ...claims })
+        .setProtectedHeader({ alg: "HS256" })
+        .sign(new TextEncoder().encode(testSecret))
+    }
+
+    it("should reject tokens that are not yet valid", async () => {
+      const token = await sign({ nbf: Math.floor(Date.now() / 1000) + 3600 })
+
+      expect(await verifyJWT(token, testSecret)).toEqual({ success: false, error: "Token not yet valid" })
+      // A little clock skew is tolerated
+      expect((await verifyJWT(await sign({ nbf: Math.floor(Date.now() / 1000) + 10 }), testSecret)).success).toBe(true)
+    })
+
+    it("should check the issuer when one is expected", async () => {
+      const expected = { issuer: "https://dave.io" }
+
+      expect((await verifyJWT(await sign({ iss: "https://dave.io" }), testSecret, undefined, expected)).success).toBe(
+        true
+      )
+      expect(await verifyJWT(await sign({ iss: "https://evil.example" }), testSecret, undefined, expected)).toEqual({
+        success: false,
+        error: "Invalid token: issuer https://evil.example, expected https://dave.io"
+      })
+      expect((await verifyJWT(await sign({}), testSecret, undefined, expected)).error).toBe(
+        "Invalid token: issuer missing, expected https://dave.io"
+      )
+    })
+
+    it("should check audiences, requiring one only when configured", async () => {
+      const origin = { audience: ["https://dave.io"] }
+      const configured = { audience: ["https://dave.io", "https://api.dave.io"], requireAudience: true }
+      const preview = await sign({ aud: "https://preview.workers.dev" })
+
+      expect((await verifyJWT(await sign({ aud: "https://dave.io" }), testSecret, undefined, origin)).success).toBe(
+        true
+      )
+      expect((await verifyJWT(await sign({}), testSecret, undefined, origin)).success).toBe(true)
+      expect((await verifyJWT(preview, testSecret, undefined, origin)).error).toBe(
+        "Invalid token: audience https://preview.workers.dev, expected https://dave.io"
+      )
+
+      expect(
+        (await verifyJWT(await sign({ aud: ["other", "https://api.dave.io"] }), testSecret, undefined, configured))
+          .success
+      ).toBe(true)
+      expect((await verifyJWT(await sign({}), testSecret, undefined, configured)).error).toBe(
+        "Invalid token: audience missing, expected https://dave.io or https://api.dave.io"
+      )
+    })
+
+    it("should read expectations from the environment, falling back to the request origin", () => {
+      ;(global as unknown as Record<string, unknown>).useRuntimeConfig = () => ({
+        apiJwtIssuer: "",
+        apiJwtAudience: ""
+      })
+
+      const configured = mockH3Event(
+        {},
+        {},
+        { API_JWT_ISSUER: "https://dave.io", API_JWT_AUDIENCE: "https://dave.io, https://api.dave.io" }
+      )
+      expect(getJWTClaimExpectations(configured)).toEqual({
+        issuer: "https://dave.io",
+        audience: ["https://dave.io", "https://api.dave.io"],
+        requireAudience: true
+      })
+
+      const preview = mockH3Event({ host: "abc123-next-dave-io.workers.dev", "x-forwarded-proto": "https" })
+      expect(getJWTClaimExpectations(preview)).toEqual({
+        issuer: undefined,
+        audience: ["https://abc123-next-dave-io.workers.dev"]
+      })
+    })
+  })
+
+  describe("verifyJWT with asymmetric keys", () => {
+    async function createSigningKey(alg: "ES256" | "EdDSA", kid: string) {
+      const { publicKey, privateKey } = await generateKeyPair(alg, { extractable: true })
+      return {
+        publicJwk: { ...(await exportJWK(publicKey)), kid, alg },
+        privateJwk: { ...(await exportJWK(privateKey)), kid, alg }
+      }
+    }
+
+    function signToken(privateKey: CryptoKey | Uint8Array, header: { alg: string; kid?: string }) {
+      const now = Math.floor(Date.now() / 1000)
+      return new SignJWT({ sub: "api:metrics", iat: now, exp: now + 3600 }).setProtectedHeader(header).sign(privateKey)
+    }
+
+    it.each(["ES256", "EdDSA"] as const)("should verify %s tokens with the key named by kid", async (alg) => {
+      const { publicJwk, privateJwk } = await createSigningKey(alg, `${alg}-key`)
+      const token = await signToken(await importJWK(privateJwk, alg), { alg, kid: `${alg}-key` })
+      const resolver = vi.fn(async (kid: string) => (kid === `${alg}-key` ? publicJwk : null))
+
+      const result = await verifyJWT(token, testSecret, resolver)
+
+      expect(result.success).toBe(true)
+      expect(result.payload?.sub).toBe("api:metrics")
+      expect(resolver).toHaveBeenCalledWith(`${alg}-key`)
+    })
+
+    it("should reject unknown kids, missing kids and mismatched algorithms", async () => {
+      const { publicJwk, privateJwk } = await createSigningKey("ES256", "es-key")
+      const privateKey = await importJWK(privateJwk, "ES256")
+      const resolver = async (kid: string) => (kid === "es-key" ? publicJwk : null)
+
+      const unknown = await verifyJWT(await signToken(privateKey, { alg: "ES256", kid: "other" }), testSecret, resolver)
+      expect(unknown.error).toContain("Unknown signing key")
+
+      const missing = await verifyJWT(await signToken(privateKey, { alg: "ES256" }), testSecret, resolver)
+      expect(missing.error).toContain("missing key ID")
+
+      const mismatched = await verifyJWT(
+        await signToken(privateKey, { alg: "ES256", kid: "es-key" }),
+        testSecret,
+        async () => ({ ...publicJwk, alg: "EdDSA" })
+      )
+      expect(mismatched.success).toBe(false)
+
+      // Without a key resolver only HS256 tokens can be verified
+      const noResolver = await verifyJWT(await signToken(privateKey, { alg: "ES256", kid: "es-key" }), testSecret)
+      expect(noResolver.success).toBe(false)
+    })
+
+    it("should reject tokens signed with another key under the same kid", async () => {
+      const { publicJwk } = await createSigningKey("ES256", "es-key")
+      const { privateJwk: otherPrivateJwk } = await createSigningKey("ES256", "es-key")
+      const token = await signToken(await importJWK(otherPrivateJwk, "ES256"), { alg: "ES256", kid: "es-key" })
+
+      const result = await verifyJWT(token, testSecret, async () => publicJwk)
+
+      expect(result.success).toBe(false)
+    })
+
+    it("should verify tokens created by bin/jwt with a private JWK", async () => {
+      const { publicJwk, privateJwk } = await createSigningKey("EdDSA", "cli-key")
+      const { createToken } = await import("../bin/jwt")
+
+      const { token } = await createToken({ sub: "ai:alt", expiresIn: "1h" }, privateJwk)
+
+      expect(decodeProtectedHeader(token)).toMatchObject({ alg: "EdDSA", kid: "cli-key" })
+      expect((await verifyJWT(token, testSecret, async () => publicJwk)).payload?.sub).toBe("ai:alt")
+    })
+
+    it("should accept tokens minted with bin/jwt defaults on a deployment without configured claims", async () => {
+      ;(global as unknown as Record<string, unknown>).useRuntimeConfig = () => ({
+        apiJwtIssuer: "",
+        apiJwtAudience: ""
+      })
+      const { applyDefaultTokenClaims, createToken } = await import("../bin/jwt")
+
+      const request = applyDefaultTokenClaims({ sub: "ai:alt", expiresIn: "1h" }, false, {})
+      const { token } = await createToken(request, testSecret)
+      const expected = getJWTClaimExpectations(mockH3Event({ host: "localhost:3000" }))
+
+      expect(decodeJwt(token)).not.toHaveProperty("aud")
+      expect(decodeJwt(token)).not.toHaveProperty("iss")
+      expect((await verifyJWT(token, testSecret, undefined, expected)).success).toBe(true)
+    })
+
+    it("should put bin/jwt claim flags into the token and its metadata", async () => {
+      const { createToken } = await import("../bin/jwt")
+
+      const { token, metadata } = await createToken(
+        {
+          sub: "scripts",
+          permissions: ["ai", "!ai:social"],
+          maxRequests: 100,
+          audience: ["https://dave.io"],
+          notBefore: "2026-01-01T00:00:00.000Z",
+          ipAllow: ["203.0.113.0/24"]
+        },
+        testSecret
+      )
+
+      expect(decodeJwt(token)).toMatchObject({
+        permissions: ["ai", "!ai:social"],
+        aud: "https://dave.io",
+        nbf: Date.parse("2026-01-01T00:00:00.000Z") / 1000,
+        ip_allow: ["203.0.113.0/24"]
+      })
+      expect(decodeJwt(token)).not.toHaveProperty("max_requests")
+      expect(metadata).toMatchObject({
+        permissions: ["ai", "!ai:social"],
+        maxRequests: 100,
+        audience: ["https://dave.io"],
+        notBefore: "2026-01-01T00:00:00.000Z",
+        ipAllow: ["203.0.113.0/24"]
+      })
+    })
+  })
+
+  describe("signing keys", () => {
+    const now = Date.parse("2026-01-01T00:00:00.000Z")
+    const ecKey: JWTSigningKey = {
+      kid: "ec",
+      alg: "ES256",
+      status: "primary",
+      jwk: { kty: "EC", crv: "P-256", x: "x", y: "y", kid: "ec", alg: "ES256", use: "sig" },
+      created_at: "2025-06-01T00:00:00.000Z"
+    }
+    const edKey: JWTSigningKey = {
+      kid: "ed",
+      alg: "EdDSA",
+      status: "verify-only",
+      jwk: { kty: "OKP", crv: "Ed25519", x: "x", kid: "ed", alg: "EdDSA", use: "sig" },
+      retire_at: "2026-02-01T00:00:00.000Z"
+    }
+
+    it("should store keys as flat public fields", async () => {
+      const entries = getSigningKeyEntries(ecKey)
+      const kv = createMockKV(Object.fromEntries(entries))
+
+      expect(entries).toContainEqual(["auth:jwk:ec:status", "primary"])
+      expect(entries.some(([key]) => key.endsWith(":d"))).toBe(false)
+      expect(await getSigningKey(kv, "ec")).toEqual(ecKey)
+      expect(await getSigningKey(kv, "missing")).toBeNull()
+    })
+
+    it("should only publish keys that still verify tokens", async () => {
+      const kv = createMockKV({
+        ...Object.fromEntries(getSigningKeyEntries(ecKey)),
+        ...Object.fromEntries(getSigningKeyEntries(edKey)),
+        ...Object.fromEntries(getSigningKeyEntries({ ...ecKey, kid: "old", status: "retired" })),
+        [getJWKKey("hs", "kty")]: "oct",
+        [getJWKKey("hs", "alg")]: "HS256"
+      })
+
+      expect((await listPublicJWKs(kv, now)).map((jwk) => jwk.kid)).toEqual(["ec", "ed"])
+      // Verify-only keys retire themselves once their grace period is over
+      expect((await listPublicJWKs(kv, Date.parse("2026-03-01T00:00:00.000Z"))).map((jwk) => jwk.kid)).toEqual(["ec"])
+
+      const resolve = createKVPublicKeyResolver(kv)
+      expect(await resolve("ec")).toEqual(ecKey.jwk)
+      expect(await resolve("old")).toBeNull()
+      expect(await resolve("hs")).toBeNull()
+    })
+
+    it("should plan rotations that demote the primary and retire expired keys", () => {
+      const expired = { ...edKey, kid: "expired", retire_at: "2025-12-01T00:00:00.000Z" }
+      const retired = { ...edKey, kid: "retired", status: "retired" as const }
+      const newKey = { kid: "new", alg: "EdDSA" as const, jwk: { kty: "OKP", kid: "new" } }
+
+      const changes = planKeyRotation([ecKey, edKey, expired, retired], newKey, { graceSeconds: 86400, now })
+
+      expect(changes.map(({ kid, status, retire_at }) => ({ kid, status, retire_at }))).toEqual([
+        { kid: "ec", status: "verify-only", retire_at: "2026-01-02T00:00:00.000Z" },
+        { kid: "expired", status: "retired", retire_at: "2025-12-01T00:00:00.000Z" },
+        { kid: "new", status: "primary", retire_at: undefined }
+      ])
+    })
+
+    it("should report which key verified a request without logging it", async () => {
+      const { publicKey, privateKey } = await generateKeyPair("ES256", { extractable: true })
+      const key = { ...ecKey, jwk: { ...(await exportJWK(publicKey)), kid: "ec", alg: "ES256" } }
+      const token = await new SignJWT({ sub: "api", iat: Math.floor(Date.now() / 1000) })
+        .setProtectedHeader({ alg: "ES256", kid: "ec" })
+        .sign(privateKey)
+
+      const event = mockH3Event(
+        { authorization: `Bearer ${token}` },
+        {},
+        { API_JWT_SECRET: testSecret, KV: createMockKV(Object.fromEntries(getSigningKeyEntries(key))) }
+      )
+      ;(global as typeof globalThis & { useRuntimeConfig: () => { apiJwtSecret: string } }).useRuntimeConfig = () => ({
+        apiJwtSecret: testSecret
+      })
+      const logSpy = vi.spyOn(console, "log").mockImplementation(() => {})
+
+      const result = await (await authorizeEndpoint("api"))(event)
+
+      expect(result).toMatchObject({ success: true, kid: "ec" })
+      expect(logSpy).not.toHaveBeenCalled()
+
+      logSpy.mockRestore()
+    })
   })
 
   describe("checkEndpointPermission", () => {
@@ -284,5 +595,63 @@ describe("Authentication System", () => {
 
       warnSpy.mockRestore()
     })
+
+    it("should accept any permissions with anyPermission, keeping binding checks", async () => {
+      const token = await new SignJWT({ sub: "ci", permissions: ["ai:alt"], ip_allow: ["203.0.113.0/24"] })
+        .setProtectedHeader({ alg: "HS256" })
+        .setIssuedAt()
+        .sign(new TextEncoder().encode(testSecret))
+      const env = { API_JWT_SECRET: testSecret }
+      ;(global as typeof globalThis & { useRuntimeConfig: () => { apiJwtSecret: string } }).useRuntimeConfig = () => ({
+        apiJwtSecret: testSecret
+      })
+      vi.spyOn(console, "log").mockImplementation(() => {})
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+
+      const allowed = mockH3Event({ authorization: `Bearer ${token}`, "cf-connecting-ip": "203.0.113.7" }, {}, env)
+      const elsewhere = mockH3Event({ authorization: `Bearer ${token}`, "cf-connecting-ip": "198.51.100.1" }, {}, env)
+
+      expect(await (await authorizeEndpoint("auth", "me"))(allowed)).toMatchObject({ success: false })
+      expect(await (await authorizeEndpoint("auth", "me", { anyPermission: true }))(allowed)).toMatchObject({
+        success: true
+      })
+      expect(await (await authorizeEndpoint("auth", "me", { anyPermission: true }))(elsewhere)).toMatchObject({
+        success: false,
+        statusCode: 403
+      })
+
+      vi.restoreAllMocks()
+    })
+
+    it("should refuse tokens whose binding claims aren't lists of strings", async () => {
+      const sign = (claims: Record<string, unknown>) =>
+        new SignJWT({ sub: "api", ...claims })
+          .setProtectedHeader({ alg: "HS256" })
+          .setIssuedAt()
+          .sign(new TextEncoder().encode(testSecret))
+      ;(global as typeof globalThis & { useRuntimeConfig: () => { apiJwtSecret: string } }).useRuntimeConfig = () => ({
+        apiJwtSecret: testSecret
+      })
+      vi.spyOn(console, "log").mockImplementation(() => {})
+
+      expect(await verifyJWT(await sign({ ip_allow: "203.0.113.0/24" }), testSecret)).toEqual({
+        success: false,
+        error: "Invalid token: ip_allow must be a list of strings"
+      })
+      expect((await verifyJWT(await sign({ origin_allow: [42] }), testSecret)).error).toBe(
+        "Invalid token: origin_allow must be a list of strings"
+      )
+
+      const event = mockH3Event(
+        { authorization: `Bearer ${await sign({ origin_allow: { "https://dave.io": true } })}` },
+        {},
+        { API_JWT_SECRET: testSecret }
+      )
+      const result = await (await authorizeEndpoint("api"))(event)
+      expect(result).toMatchObject({ success: false, error: "Invalid token: origin_allow must be a list of strings" })
+      expect(result.statusCode ?? 401).toBe(401)
+
+      vi.restoreAllMocks()
+    })
   })
 })
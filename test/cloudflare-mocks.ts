@@ -0,0 +1,92 @@
+import { vi } from "vitest"
+
+/**
+ * In-memory KV namespace; every method is a spy, and the backing store is exposed for assertions
+ */
+export function createMockKV(initial: Record<string, string> = {}) {
+  const store = new Map<string, string>(Object.entries(initial))
+  const metadata = new Map<string, unknown>()
+
+  const kv = {
+    store,
+    metadata,
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string, options?: { metadata?: unknown }) => {
+      store.set(key, value)
+      if (options?.metadata === undefined) {
+        metadata.delete(key)
+      } else {
+        metadata.set(key, options.metadata)
+      }
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key)
+      metadata.delete(key)
+    }),
+    list: vi.fn(async ({ prefix = "" }: { prefix?: string; cursor?: string } = {}) => ({
+      keys: [...store.keys()]
+        .filter((name) => name.startsWith(prefix))
+        .map((name) => (metadata.has(name) ? { name, metadata: metadata.get(name) } : { name })),
+      list_complete: true,
+      cursor: undefined
+    }))
+  }
+
+  return kv as unknown as KVNamespace & Omit<typeof kv, "get" | "put" | "delete" | "list">
+}
+
+/**
+ * KV namespace whose every operation fails, as when the binding is unavailable
+ */
+export function createFailingKV() {
+  const fail = async () => {
+    throw new Error("KV unavailable")
+  }
+  return { get: fail, put: fail, delete: fail, list: fail } as unknown as KVNamespace
+}
+
+/**
+ * Rows and change count a mock D1 statement produces
+ */
+export interface MockD1Result {
+  results?: Record<string, unknown>[]
+  changes?: number
+}
+
+/**
+ * Emulates the SQL a test cares about; statements it returns nothing for yield no rows and no changes
+ */
+export type MockD1Handler = (sql: string, args: unknown[]) => MockD1Result | undefined
+
+/**
+ * D1 database backed by a handler, covering the prepared statement API (bind, first, run, all) and batch
+ * Every executed statement is recorded in order with its bound arguments
+ */
+export function createMockD1(handler: MockD1Handler = () => undefined) {
+  const statements: { sql: string; args: unknown[] }[] = []
+
+  const execute = (sql: string, args: unknown[]) => {
+    statements.push({ sql, args })
+    const result = handler(sql, args)
+    return { results: result?.results ?? [], meta: { changes: result?.changes ?? 0 }, success: true }
+  }
+
+  const prepare = (sql: string, args: unknown[] = []) => ({
+    sql,
+    args,
+    bind: (...bound: unknown[]) => prepare(sql, bound),
+    first: async () => execute(sql, args).results[0] ?? null,
+    run: async () => execute(sql, args),
+    all: async () => execute(sql, args)
+  })
+
+  const db = {
+    statements,
+    prepare: vi.fn((sql: string) => prepare(sql)),
+    batch: vi.fn(async (batched: { all: () => Promise<unknown> }[]) =>
+      Promise.all(batched.map((statement) => statement.all()))
+    )
+  }
+
+  return db as unknown as D1Database & { statements: typeof statements }
+}
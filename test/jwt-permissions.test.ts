@@ -1,5 +1,8 @@
+import { readdirSync, readFileSync } from "node:fs"
+import { join } from "node:path"
 import { describe, expect, it } from "vitest"
 import { hasPermission, validateTokenPermissions } from "~/server/utils/auth"
+import { ENDPOINT_SCOPES, explainPermission } from "~/server/utils/permissions"
 
 describe("JWT Hierarchical Permissions", () => {
   describe("hasPermission", () => {
@@ -217,4 +220,85 @@ describe("JWT Hierarchical Permissions", () => {
       expect(validateTokenPermissions(tokenAdminToken, "api:metrics")).toBe(false)
     })
   })
+
+  describe("Deny rules and wildcard segments", () => {
+    it("should let deny rules beat any allow", () => {
+      expect(hasPermission(["ai", "!ai:social"], "ai:social")).toBe(false)
+      expect(hasPermission(["ai", "!ai:social"], "ai:social:thread")).toBe(false)
+      expect(hasPermission(["ai", "!ai:social"], "ai:alt")).toBe(true)
+      expect(hasPermission(["!ai:social", "*"], "ai:social")).toBe(false)
+      expect(hasPermission(["admin", "!admin"], "admin")).toBe(false)
+      expect(hasPermission(["admin", "!admin"], "api:token")).toBe(true)
+    })
+
+    it("should not grant anything from deny rules alone", () => {
+      expect(hasPermission(["!ai:social"], "ai:alt")).toBe(false)
+      expect(hasPermission(["!*"], "api:metrics")).toBe(false)
+    })
+
+    it("should match a single segment with mid-path wildcards", () => {
+      const permissions = ["api:*:read"]
+      expect(hasPermission(permissions, "api:token:read")).toBe(true)
+      expect(hasPermission(permissions, "api:redirects:read:stats")).toBe(true)
+      expect(hasPermission(permissions, "api:token:write")).toBe(false)
+      expect(hasPermission(permissions, "api:token")).toBe(false)
+      expect(hasPermission(permissions, "api:a:b:read")).toBe(false)
+      expect(hasPermission(["api:*:read", "!api:token:*"], "api:token:read")).toBe(false)
+    })
+
+    it("should explain which grant decided", () => {
+      expect(explainPermission(["ai", "!ai:social"], "ai:social")).toEqual({
+        allowed: false,
+        grant: "!ai:social",
+        denied: true
+      })
+      expect(explainPermission(["api:token", "ai"], "ai:alt")).toEqual({ allowed: true, grant: "ai", denied: false })
+      expect(explainPermission(["api:token"], "ai:alt")).toEqual({ allowed: false, grant: null, denied: false })
+    })
+  })
+
+  describe("ENDPOINT_SCOPES", () => {
+    // Permission family each require*Auth helper checks
+    const helperFamilies: Record<string, string> = {
+      requireAPIAuth: "api",
+      requireAIAuth: "ai",
+      requireDashboardAuth: "dashboard",
+      requireAdminAuth: "admin"
+    }
+
+    it("should list every scope the API's endpoints check", () => {
+      const checked = new Set<string>()
+      const files = readdirSync("server/api", { recursive: true, encoding: "utf8" }).filter((file) =>
+        file.endsWith(".ts")
+      )
+
+      for (const file of files) {
+        const source = readFileSync(join("server/api", file), "utf8")
+        for (const [, helper, resource] of source.matchAll(/(require\w+Auth)\(event(?:, "([^"]+)")?\)/g)) {
+          const family = helperFamilies[helper!]
+          if (family) {
+            checked.add(resource ? `${family}:${resource}` : family)
+          }
+        }
+        for (const [, endpoint, resource] of source.matchAll(/authorizeEndpoint\("([^"]+)"(?:, "([^"]+)")?/g)) {
+          checked.add(resource ? `${endpoint}:${resource}` : endpoint!)
+        }
+      }
+
+      expect(checked.size).toBeGreaterThan(0)
+      expect([...checked].filter((scope) => !ENDPOINT_SCOPES.includes(scope))).toEqual([])
+    })
+
+    it("should cover every permission family the auth helpers check", () => {
+      const source = readFileSync("server/utils/auth-helpers.ts", "utf8")
+      const families = [...source.matchAll(/requireAuth\(event, "(\w+)"(?:, resource)?\)/g)].map(
+        ([, family]) => family!
+      )
+
+      expect(families.sort()).toEqual(Object.values(helperFamilies).sort())
+      for (const family of families) {
+        expect(ENDPOINT_SCOPES.some((scope) => scope === family || scope.startsWith(`${family}:`))).toBe(true)
+      }
+    })
+  })
 })
@@ -2,7 +2,7 @@ import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs"
 import { resolve } from "node:path"
 import yaml from "js-yaml"
 import { afterEach, beforeEach, describe, expect, it } from "vitest"
-import { exportKV, importKV } from "../bin/kv"
+import { convertToFlatStructure, convertToNestedStructure, exportKV, formatKVValue, importKV } from "../bin/kv"
 
 describe("KV Import/Export", () => {
   const testDir = resolve("test-data/kv")
@@ -249,6 +249,40 @@ redirect:
     })
   })
 
+  describe("Redirect metadata round-trip", () => {
+    const flatData = {
+      "redirect:launch": "https://dave.io/launch",
+      "meta:redirect:launch:not-before": "2025-01-01T00:00:00.000Z",
+      "meta:redirect:launch:expires-at": "2025-02-01T00:00:00.000Z",
+      "meta:redirect:launch:max-clicks": "100"
+    }
+
+    it("should survive export to YAML and import back", () => {
+      const yamlOutput = yaml.dump(convertToNestedStructure(flatData), { sortKeys: true })
+      const imported = convertToFlatStructure(yaml.load(yamlOutput) as Record<string, unknown>)
+
+      const roundTripped = Object.fromEntries(
+        Object.entries(imported).map(([key, value]) => [key, formatKVValue(value)])
+      )
+      expect(roundTripped).toEqual(flatData)
+    })
+
+    it("should import unquoted timestamps and numbers as plain strings", () => {
+      const imported = convertToFlatStructure(
+        yaml.load(`
+meta:
+  redirect:
+    launch:
+      expires-at: 2025-02-01T00:00:00.000Z
+      max-clicks: 100
+`) as Record<string, unknown>
+      )
+
+      expect(formatKVValue(imported["meta:redirect:launch:expires-at"])).toBe("2025-02-01T00:00:00.000Z")
+      expect(formatKVValue(imported["meta:redirect:launch:max-clicks"])).toBe("100")
+    })
+  })
+
   describe("Environment Variable Validation", () => {
     it("should check KV_IMPORT_ALLOW_OVERWRITE correctly", () => {
       // Test environment variable checking logic
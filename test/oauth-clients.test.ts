@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+import { hashAPIKey } from "~/server/utils/api-keys"
+import {
+  authenticateOAuthClient,
+  CLIENT_SECRET_PREFIX,
+  generateClientId,
+  generateClientSecret,
+  resolveClientPermissions
+} from "~/server/utils/oauth-clients"
+import { createMockD1 } from "./cloudflare-mocks"
+
+// In-memory stand-in for the oauth_clients table, looked up by client_id
+function createClientsD1(rows: Record<string, unknown>[]) {
+  return createMockD1((_sql, args) => ({ results: rows.filter((row) => row.client_id === args[0]) }))
+}
+
+describe("OAuth clients", () => {
+  it("should generate client IDs and prefixed secrets", () => {
+    expect(generateClientId()).toMatch(/^client_[0-9a-f]{16}$/)
+    expect(generateClientSecret()).toMatch(new RegExp(`^${CLIENT_SECRET_PREFIX}[0-9a-f]{64}$`))
+    expect(generateClientSecret()).not.toBe(generateClientSecret())
+  })
+
+  describe("authenticateOAuthClient", () => {
+    it("should return the client when its secret matches", async () => {
+      const secret = generateClientSecret()
+      const db = createClientsD1([
+        {
+          client_id: "client_1",
+          secret_hash: await hashAPIKey(secret),
+          name: "Status page",
+          scopes: JSON.stringify(["api:metrics", "ai"]),
+          created_at: "2026-01-01T00:00:00.000Z",
+          revoked_at: null
+        }
+      ])
+
+      expect(await authenticateOAuthClient(db, "client_1", secret)).toEqual({
+        clientId: "client_1",
+        name: "Status page",
+        scopes: ["api:metrics", "ai"],
+        createdAt: "2026-01-01T00:00:00.000Z"
+      })
+    })
+
+    it("should reject unknown clients, wrong secrets and revoked clients", async () => {
+      const secret = generateClientSecret()
+      const db = createClientsD1([
+        {
+          client_id: "client_1",
+          secret_hash: await hashAPIKey(secret),
+          scopes: "[]",
+          created_at: "2026-01-01T00:00:00.000Z"
+        },
+        {
+          client_id: "client_2",
+          secret_hash: await hashAPIKey(secret),
+          scopes: "[]",
+          created_at: "2026-01-01T00:00:00.000Z",
+          revoked_at: "2026-02-01T00:00:00.000Z"
+        }
+      ])
+
+      expect(await authenticateOAuthClient(db, "client_3", secret)).toBeNull()
+      expect(await authenticateOAuthClient(db, "client_1", generateClientSecret())).toBeNull()
+      expect(await authenticateOAuthClient(db, "client_2", secret)).toBeNull()
+    })
+  })
+
+  describe("resolveClientPermissions", () => {
+    const allowed = ["api:metrics", "ai", "!ai:social"]
+
+    it("should grant everything the client is allowed when no scope is requested", () => {
+      expect(resolveClientPermissions(allowed)).toEqual(allowed)
+      expect(resolveClientPermissions(allowed, "  ")).toEqual(allowed)
+    })
+
+    it("should narrow to requested scopes and keep the client's deny rules", () => {
+      expect(resolveClientPermissions(allowed, "ai:alt api:metrics")).toEqual(["ai:alt", "api:metrics", "!ai:social"])
+    })
+
+    it("should refuse scopes the client isn't allowed", () => {
+      expect(resolveClientPermissions(allowed, "ai:social")).toBeNull()
+      expect(resolveClientPermissions(allowed, "api")).toBeNull()
+      expect(resolveClientPermissions(allowed, "admin")).toBeNull()
+      expect(resolveClientPermissions(allowed, "!ai:word")).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import { encodeQR, renderQRCodePNG, renderQRCodeSVG } from "~/server/utils/qr"
+
+describe("QR codes", () => {
+  describe("encodeQR", () => {
+    it("should pick the smallest version that fits", () => {
+      expect(encodeQR("https://dave.io/go/gh", "L").version).toBe(2)
+      expect(encodeQR("https://dave.io/go/gh", "H").version).toBe(3)
+      expect(encodeQR(`https://dave.io/go/${"x".repeat(50)}`, "M").version).toBe(5)
+    })
+
+    it("should draw finder patterns and a valid format", () => {
+      const qr = encodeQR("https://dave.io/go/gh", "M", 2)
+
+      expect(qr.size).toBe(25)
+      expect(qr.mask).toBe(2)
+      expect(qr.modules[0]!.slice(0, 8)).toEqual([true, true, true, true, true, true, true, false])
+      expect(qr.modules[3]!.slice(0, 7)).toEqual([true, false, true, true, true, false, true])
+      // Always-dark module next to the bottom-left finder
+      expect(qr.modules[qr.size - 8]![8]).toBe(true)
+    })
+
+    it("should match a known encoding", () => {
+      const qr = encodeQR("hello", "L", 0)
+      expect(qr.modules.map((row) => row.map((dark) => (dark ? 1 : 0)).join(""))).toEqual([
+        "111111100101101111111",
+        "100000100111001000001",
+        "101110101101101011101",
+        "101110100101001011101",
+        "101110100010101011101",
+        "100000100000101000001",
+        "111111101010101111111",
+        "000000001101100000000",
+        "111011111111011000100",
+        "011111011100001000011",
+        "011111101000100011111",
+        "001100000000001000010",
+        "000010110110101010000",
+        "000000001101010100111",
+        "111111101111011100111",
+        "100000101111110110000",
+        "101110101111011100011",
+        "101110100010001100110",
+        "101110101110100010101",
+        "100000101100001010010",
+        "111111101010101100011"
+      ])
+    })
+
+    it("should reject data that does not fit", () => {
+      expect(() => encodeQR("x".repeat(3000), "H")).toThrow("Data too long")
+    })
+  })
+
+  describe("renderers", () => {
+    const qr = encodeQR("https://dave.io/go/gh")
+
+    it("should render SVG with a quiet zone", () => {
+      const svg = renderQRCodeSVG(qr, 256, 4)
+
+      expect(svg).toContain('width="256" height="256" viewBox="0 0 33 33"')
+      expect(svg).toMatch(/<path d="M4 4h7v1h-7z/)
+    })
+
+    it("should render a 1-bit PNG scaled to fit the requested size", async () => {
+      const png = await renderQRCodePNG(qr, 300, 4)
+      const view = new DataView(png.buffer, png.byteOffset)
+
+      expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+      expect(new TextDecoder().decode(png.subarray(12, 16))).toBe("IHDR")
+      expect(view.getUint32(16)).toBe(297)
+      expect(view.getUint32(20)).toBe(297)
+      expect(png[24]).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import type { H3Event } from "h3"
+import { SignJWT } from "jose"
+import { beforeEach, describe, expect, it } from "vitest"
+import { authenticateRequest } from "~/server/utils/auth"
+import {
+  checkRateLimit,
+  getRateLimitIdentity,
+  getRateLimitPatterns,
+  getRateLimitRule,
+  getRequestPermission
+} from "~/server/utils/rate-limit"
+import { createMockD1, createMockKV } from "./cloudflare-mocks"
+
+// In-memory stand-in for the rate_limits table, mirroring the batch in checkRateLimit
+function createRateLimitD1() {
+  const rows = new Map<string, number>()
+
+  const db = createMockD1((sql, args) => {
+    const [key, windowStart] = args as [string, number]
+    const id = `${key}@${windowStart}`
+    if (sql.startsWith("INSERT")) {
+      rows.set(id, (rows.get(id) ?? 0) + 1)
+      return { results: [{ count: rows.get(id) }] }
+    }
+    if (sql.startsWith("SELECT")) {
+      return { results: rows.has(id) ? [{ count: rows.get(id) }] : [] }
+    }
+    for (const row of rows.keys()) {
+      const [rowKey, rowStart] = row.split("@")
+      if (rowKey === key && Number(rowStart) < windowStart) {
+        rows.delete(row)
+      }
+    }
+    return undefined
+  })
+
+  return { db, rows }
+}
+
+describe("Rate limiting", () => {
+  it("should map API paths to permissions", () => {
+    expect(getRequestPermission("/api/ai/social?x=1")).toBe("ai:social")
+    expect(getRequestPermission("/api/dashboard/hackernews")).toBe("dashboard:hackernews")
+    expect(getRequestPermission("/api/redirects/health")).toBe("api:redirects")
+    expect(getRequestPermission("/api/ping")).toBe("api:ping")
+    expect(getRequestPermission("/oauth/token")).toBe("oauth:token")
+    expect(getRequestPermission("/go/gh")).toBeNull()
+  })
+
+  it("should list patterns from most to least specific", () => {
+    expect(getRateLimitPatterns("ai:social")).toEqual(["ai:social", "ai:*", "*"])
+    expect(getRateLimitPatterns("a:b:c")).toEqual(["a:b:c", "a:b:*", "a:*", "*"])
+  })
+
+  describe("getRateLimitRule", () => {
+    it("should fall back to the built-in defaults", async () => {
+      expect(await getRateLimitRule(undefined, "ai:word")).toEqual({
+        pattern: "ai:*",
+        rule: { requests: 30, windowSeconds: 60 }
+      })
+      expect(await getRateLimitRule(undefined, "oauth:token")).toEqual({
+        pattern: "oauth:*",
+        rule: { requests: 30, windowSeconds: 60 }
+      })
+      expect(await getRateLimitRule(createMockKV(), "api:ping")).toEqual({
+        pattern: "*",
+        rule: { requests: 300, windowSeconds: 60 }
+      })
+    })
+
+    it("should prefer the most specific KV override", async () => {
+      const kv = createMockKV({
+        "ratelimit:ai:social:requests": "5",
+        "ratelimit:ai:social:window-seconds": "3600",
+        "ratelimit:api:*:requests": "0"
+      })
+
+      expect(await getRateLimitRule(kv, "ai:social")).toEqual({
+        pattern: "ai:social",
+        rule: { requests: 5, windowSeconds: 3600 }
+      })
+      expect((await getRateLimitRule(kv, "ai:alt"))?.pattern).toBe("ai:*")
+      expect(await getRateLimitRule(kv, "api:ping")).toBeNull()
+    })
+  })
+
+  describe("checkRateLimit", () => {
+    const rule = { requests: 3, windowSeconds: 60 }
+    const windowStart = 1_800_000_000_000 - (1_800_000_000_000 % 60_000)
+
+    it("should reject requests over the limit with the time left in the window", async () => {
+      const { db } = createRateLimitD1()
+
+      for (let i = 0; i < 3; i++) {
+        expect((await checkRateLimit(db, "ip:1", rule, windowStart + 1000)).allowed).toBe(true)
+      }
+
+      expect(await checkRateLimit(db, "ip:1", rule, windowStart + 15_000)).toEqual({
+        allowed: false,
+        limit: 3,
+        count: 4,
+        retryAfter: 45
+      })
+      expect((await checkRateLimit(db, "ip:2", rule, windowStart + 15_000)).allowed).toBe(true)
+    })
+
+    it("should weight the previous window by its overlap", async () => {
+      const { db, rows } = createRateLimitD1()
+
+      for (let i = 0; i < 3; i++) {
+        await checkRateLimit(db, "ip:1", rule, windowStart + 59_000)
+      }
+
+      // A third of the way into the next window, two thirds of the previous three still count
+      expect(await checkRateLimit(db, "ip:1", rule, windowStart + 80_000)).toMatchObject({ allowed: true, count: 3 })
+      expect((await checkRateLimit(db, "ip:1", rule, windowStart + 80_000)).allowed).toBe(false)
+
+      // Windows older than the previous one are cleared out
+      await checkRateLimit(db, "ip:1", rule, windowStart + 180_000)
+      expect([...rows.keys()].every((row) => Number(row.split("@")[1]) >= windowStart + 120_000)).toBe(true)
+    })
+  })
+
+  describe("getRateLimitIdentity", () => {
+    const secret = "rate-limit-test-secret"
+
+    beforeEach(() => {
+      const globals = global as unknown as Record<string, unknown>
+      globals.getHeader = (event: H3Event, name: string) =>
+        (event as unknown as { node: { req: { headers: Record<string, string> } } }).node.req.headers[name]
+      globals.getQuery = () => ({})
+      globals.useRuntimeConfig = () => ({ apiJwtSecret: secret })
+    })
+
+    function createEvent(headers: Record<string, string>) {
+      return {
+        node: { req: { headers }, res: {} as ServerResponse },
+        req: {} as IncomingMessage,
+        context: { cloudflare: { env: { API_JWT_SECRET: secret } } }
+      } as unknown as H3Event
+    }
+
+    async function sign(claims: Record<string, unknown>, key = secret) {
+      return new SignJWT({ iat: Math.floor(Date.now() / 1000), ...claims })
+        .setProtectedHeader({ alg: "HS256" })
+        .sign(new TextEncoder().encode(key))
+    }
+
+    it("should key verified tokens by jti, then sub", async () => {
+      const withJti = await sign({ sub: "api", jti: "token-1" })
+      const withoutJti = await sign({ sub: "api" })
+
+      expect(await getRateLimitIdentity(createEvent({ authorization: `Bearer ${withJti}` }))).toBe("jti:token-1")
+      expect(await getRateLimitIdentity(createEvent({ authorization: `Bearer ${withoutJti}` }))).toBe("sub:api")
+    })
+
+    it("should verify the credential once for rate limiting and authorization", async () => {
+      const event = createEvent({ authorization: `Bearer ${await sign({ sub: "api", jti: "token-1" })}` })
+
+      expect(await getRateLimitIdentity(event)).toBe("jti:token-1")
+      expect(authenticateRequest(event)).toBe(authenticateRequest(event))
+      expect(await authenticateRequest(event)).toMatchObject({ success: true, payload: { jti: "token-1" } })
+    })
+
+    it("should key anonymous and unverifiable callers by IP", async () => {
+      const forged = await sign({ sub: "api", jti: "token-1" }, "wrong-secret")
+
+      expect(await getRateLimitIdentity(createEvent({ "cf-connecting-ip": "192.0.2.1" }))).toBe("ip:192.0.2.1")
+      expect(
+        await getRateLimitIdentity(createEvent({ authorization: `Bearer ${forged}`, "cf-connecting-ip": "192.0.2.1" }))
+      ).toBe("ip:192.0.2.1")
+    })
+  })
+})
@@ -0,0 +1,183 @@
+/**
+ * @vitest-environment node
+ */
+import { createServer } from "node:http"
+import type { Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import {
+  checkRedirectDestination,
+  getRedirectHealth,
+  getRedirectHealthReport,
+  runRedirectHealthChecks
+} from "~/server/utils/redirect-health"
+import { putRedirect } from "~/server/utils/redirects"
+import { createMockKV } from "./cloudflare-mocks"
+
+describe("Redirect health checks", () => {
+  let server: Server
+  let baseUrl: string
+  const methods: string[] = []
+
+  // Local stub standing in for redirect destinations
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      methods.push(`${req.method} ${req.url}`)
+      if (req.url === "/ok") {
+        res.writeHead(200).end("ok")
+      } else if (req.url === "/moved") {
+        res.writeHead(301, { Location: "/ok" }).end()
+      } else if (req.url === "/no-head") {
+        res.writeHead(req.method === "HEAD" ? 405 : 200).end()
+      } else if (req.url === "/slow") {
+        setTimeout(() => res.writeHead(200).end(), 500)
+      } else {
+        res.writeHead(404).end()
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    methods.length = 0
+  })
+
+  describe("checkRedirectDestination", () => {
+    it("should follow redirects and report the final status", async () => {
+      const result = await checkRedirectDestination("moved", `${baseUrl}/moved`)
+
+      expect(result).toMatchObject({ slug: "moved", ok: true, status: 200 })
+      expect(result.latency_ms).toBeGreaterThanOrEqual(0)
+    })
+
+    it("should fall back to GET when HEAD is not allowed", async () => {
+      const result = await checkRedirectDestination("no-head", `${baseUrl}/no-head`)
+
+      expect(result).toMatchObject({ ok: true, status: 200 })
+      expect(methods).toEqual(["HEAD /no-head", "GET /no-head"])
+    })
+
+    it("should report dead destinations and timeouts as failing", async () => {
+      expect(await checkRedirectDestination("gone", `${baseUrl}/gone`)).toMatchObject({ ok: false, status: 404 })
+
+      const slow = await checkRedirectDestination("slow", `${baseUrl}/slow`, { timeoutMs: 50 })
+      expect(slow).toMatchObject({ ok: false, status: null })
+      expect(slow.error).toBeDefined()
+    })
+
+    it("should use an injected fetch", async () => {
+      const stubFetch = (async () => new Response(null, { status: 503 })) as unknown as typeof fetch
+
+      expect(await checkRedirectDestination("x", "https://example.com", { fetch: stubFetch })).toMatchObject({
+        ok: false,
+        status: 503
+      })
+    })
+  })
+
+  describe("runRedirectHealthChecks", () => {
+    it("should check every redirect and store the results", async () => {
+      const kv = createMockKV({
+        "redirect:ok": `${baseUrl}/ok`,
+        "redirect:gone": `${baseUrl}/gone`,
+        "meta:redirect:ok:title": "Not a redirect key"
+      })
+
+      const results = await runRedirectHealthChecks(kv, { concurrency: 1 })
+
+      expect(results.map((result) => [result.slug, result.status])).toEqual([
+        ["gone", 404],
+        ["ok", 200]
+      ])
+      expect(kv.store.get("health:redirect:gone:status")).toBe("404")
+      expect(kv.store.get("health:redirect:ok:ok")).toBe("true")
+      expect(await getRedirectHealth(kv, "ok")).toMatchObject({ url: `${baseUrl}/ok`, ok: true, status: 200 })
+    })
+
+    it("should check rule and variant destinations too", async () => {
+      const kv = createMockKV()
+      await putRedirect(kv, "campaign", {
+        url: `${baseUrl}/ok`,
+        rules: [{ type: "country", values: ["GB"], url: `${baseUrl}/ok` }],
+        variants: [
+          { url: `${baseUrl}/moved`, weight: 1 },
+          { url: `${baseUrl}/gone`, weight: 1 }
+        ]
+      })
+
+      const [result] = await runRedirectHealthChecks(kv)
+
+      expect(result).toMatchObject({ slug: "campaign", ok: false, status: 200 })
+      expect(result?.destinations?.map(({ source, ok, status }) => [source, ok, status])).toEqual([
+        ["rule:0", true, 200],
+        ["variant:0", true, 200],
+        ["variant:1", false, 404]
+      ])
+      // The rule shares the redirect's URL, so /ok is only requested for the URL and the moved variant
+      expect(methods.filter((method) => method === "HEAD /ok")).toHaveLength(2)
+      expect(await getRedirectHealth(kv, "campaign")).toEqual(result)
+
+      const report = await getRedirectHealthReport(kv)
+      expect(report).toMatchObject({ healthy: 0, failing: 1 })
+
+      await putRedirect(kv, "campaign", { url: `${baseUrl}/ok`, variants: [{ url: `${baseUrl}/ok`, weight: 1 }] })
+      expect(await getRedirectHealthReport(kv)).toMatchObject({ failing: 0, unchecked: ["campaign"] })
+    })
+
+    it("should resolve same-origin aliases through KV instead of requesting them", async () => {
+      const kv = createMockKV()
+      await putRedirect(kv, "target", { url: `${baseUrl}/ok` })
+      await putRedirect(kv, "alias", {
+        url: "https://dave.io/go/target",
+        rules: [{ type: "country", values: ["GB"], url: "https://dave.io/go/missing" }]
+      })
+      await putRedirect(kv, "used-up", { url: `${baseUrl}/ok`, max_clicks: 1 })
+      kv.store.set("metrics:redirect:used-up:ok", "1")
+      await putRedirect(kv, "to-used-up", { url: "https://dave.io/go/used-up" })
+      const requested: string[] = []
+      const recordingFetch = ((input: string | URL | Request, init?: RequestInit) => {
+        requested.push(String(input))
+        return fetch(input, init)
+      }) as typeof fetch
+
+      const results = await runRedirectHealthChecks(kv, { fetch: recordingFetch })
+      const result = (slug: string) => results.find((entry) => entry.slug === slug)
+
+      expect(requested.every((url) => url.startsWith(baseUrl))).toBe(true)
+      expect(result("alias")).toMatchObject({ url: "https://dave.io/go/target", ok: false, status: 200 })
+      expect(result("alias")?.destinations).toEqual([
+        expect.objectContaining({
+          source: "rule:0",
+          ok: false,
+          status: 404,
+          error: "Short link missing does not exist"
+        })
+      ])
+      expect(result("to-used-up")).toMatchObject({ ok: false, status: 410, error: "Short link used-up is exhausted" })
+      // Checking the aliases counted no clicks
+      expect(kv.store.get("metrics:redirect:target:ok")).toBeUndefined()
+      expect(kv.store.get("metrics:redirect:used-up:ok")).toBe("1")
+    })
+
+    it("should summarise results and flag destinations changed since the last check", async () => {
+      const kv = createMockKV({
+        "redirect:ok": `${baseUrl}/ok`,
+        "redirect:gone": `${baseUrl}/gone`
+      })
+      await runRedirectHealthChecks(kv)
+      await kv.put("redirect:ok", `${baseUrl}/elsewhere`)
+      await kv.put("redirect:new", `${baseUrl}/ok`)
+
+      const report = await getRedirectHealthReport(kv)
+
+      expect(report).toMatchObject({ total: 3, healthy: 0, failing: 1, unchecked: ["new", "ok"] })
+      expect(report.redirects.map((health) => health.slug)).toEqual(["gone"])
+    })
+  })
+})
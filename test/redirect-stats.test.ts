@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { formatRedirectStatsAsCSV, formatRedirectStatsAsPrometheus } from "~/server/utils/formatters"
+import {
+  getRedirectBucket,
+  getRedirectClickBuckets,
+  getReferrerHost,
+  updateRedirectMetrics
+} from "~/server/utils/kv-metrics"
+import type { RedirectStats } from "~/server/utils/schemas"
+import { createMockKV } from "./cloudflare-mocks"
+
+describe("Redirect click analytics", () => {
+  let kv: ReturnType<typeof createMockKV>
+
+  beforeEach(() => {
+    kv = createMockKV()
+  })
+
+  describe("getRedirectBucket", () => {
+    it("should bucket times by UTC hour and day", () => {
+      const time = Date.UTC(2025, 0, 2, 13, 45)
+      expect(getRedirectBucket("hourly", time)).toBe("2025-01-02T13")
+      expect(getRedirectBucket("daily", time)).toBe("2025-01-02")
+    })
+  })
+
+  describe("getReferrerHost", () => {
+    it("should reduce referrers to host names", () => {
+      expect(getReferrerHost("https://Bsky.app/profile/dave.io")).toBe("bsky.app")
+      expect(getReferrerHost(undefined)).toBe("direct")
+      expect(getReferrerHost("not a url")).toBe("direct")
+    })
+  })
+
+  describe("updateRedirectMetrics", () => {
+    it("should write hourly and daily buckets with breakdowns", async () => {
+      const clickInfo = { country: "GB", datacenter: "LHR", referrer: "https://bsky.app/x" }
+      await updateRedirectMetrics(kv, "github", 302, "Mozilla/5.0", clickInfo)
+      await updateRedirectMetrics(kv, "github", 302, "Mozilla/5.0", { ...clickInfo, country: "IE" })
+
+      const hour = getRedirectBucket("hourly", Date.now())
+      expect(kv.store.get(`metrics:redirect:github:hourly:${hour}:clicks`)).toBe("2")
+      expect(kv.store.get(`metrics:redirect:github:hourly:${hour}:country:GB`)).toBe("1")
+      expect(kv.metadata.get(`metrics:redirect:github:hourly:${hour}:referrer:bsky.app`)).toEqual({ count: 2 })
+
+      const buckets = await getRedirectClickBuckets(kv, "github", "daily", new Date(), new Date())
+      expect(buckets).toEqual([
+        {
+          bucket: getRedirectBucket("daily", Date.now()),
+          clicks: 2,
+          countries: { GB: 1, IE: 1 },
+          datacenters: { LHR: 2 },
+          referrers: { "bsky.app": 2 }
+        }
+      ])
+    })
+
+    it("should count which targeting rule fired", async () => {
+      const clickInfo = { country: "GB", datacenter: "LHR" }
+      await updateRedirectMetrics(kv, "talk", 302, "Mozilla/5.0", { ...clickInfo, rule: "0" })
+      await updateRedirectMetrics(kv, "talk", 302, "Mozilla/5.0", { ...clickInfo, rule: "fallback" })
+
+      expect(kv.store.get("metrics:redirect:talk:rule:0")).toBe("1")
+      expect(kv.store.get("metrics:redirect:talk:rule:fallback")).toBe("1")
+    })
+
+    it("should count clicks per A/B variant", async () => {
+      const clickInfo = { country: "GB", datacenter: "LHR", rule: "fallback" }
+      await updateRedirectMetrics(kv, "campaign", 302, "Mozilla/5.0", { ...clickInfo, variant: 0 })
+      await updateRedirectMetrics(kv, "campaign", 302, "Mozilla/5.0", { ...clickInfo, variant: 0 })
+      await updateRedirectMetrics(kv, "campaign", 302, "Mozilla/5.0", { ...clickInfo, variant: 1 })
+
+      expect(kv.store.get("metrics:redirect:campaign:variant:0")).toBe("2")
+      expect(kv.store.get("metrics:redirect:campaign:variant:1")).toBe("1")
+    })
+
+    it("should not write buckets for failed redirects", async () => {
+      await updateRedirectMetrics(kv, "github", 404, "Mozilla/5.0", { country: "GB", datacenter: "LHR" })
+
+      expect([...kv.store.keys()].some((key) => key.includes(":hourly:"))).toBe(false)
+    })
+  })
+
+  describe("getRedirectClickBuckets", () => {
+    it("should only return buckets inside the requested range", async () => {
+      for (const bucket of ["2025-01-01T23", "2025-01-02T00", "2025-01-02T05"]) {
+        await kv.put(`metrics:redirect:gh:hourly:${bucket}:clicks`, "3", { metadata: { count: 3 } })
+      }
+
+      const buckets = await getRedirectClickBuckets(
+        kv,
+        "gh",
+        "hourly",
+        new Date("2025-01-02T00:00:00Z"),
+        new Date("2025-01-02T04:59:59Z")
+      )
+
+      expect(buckets.map((bucket) => bucket.bucket)).toEqual(["2025-01-02T00"])
+    })
+  })
+
+  describe("formatters", () => {
+    const stats: RedirectStats = {
+      slug: "gh",
+      granularity: "daily",
+      from: "2025-01-01T00:00:00.000Z",
+      to: "2025-01-02T00:00:00.000Z",
+      total_clicks: 4,
+      buckets: [{ bucket: "2025-01-01", clicks: 4, countries: { GB: 4 }, datacenters: {}, referrers: { direct: 4 } }]
+    }
+
+    it("should format stats as CSV", () => {
+      expect(formatRedirectStatsAsCSV(stats).split("\n")).toEqual([
+        "slug,granularity,bucket,dimension,value,clicks",
+        "gh,daily,2025-01-01,total,,4",
+        "gh,daily,2025-01-01,country,GB,4",
+        "gh,daily,2025-01-01,referrer,direct,4"
+      ])
+    })
+
+    it("should format stats as Prometheus gauges", () => {
+      const output = formatRedirectStatsAsPrometheus(stats)
+      expect(output).toContain("# TYPE redirect_bucket_clicks gauge")
+      expect(output).toContain(
+        'redirect_bucket_clicks{slug="gh",granularity="daily",bucket="2025-01-01",dimension="country",value="GB"} 4'
+      )
+    })
+  })
+})
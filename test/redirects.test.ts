@@ -0,0 +1,542 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { escapeHtml, getRedirectPreviewContent, renderGoPage } from "~/server/utils/go-pages"
+import { classifyPlatform, isLinkUnfurlerUserAgent } from "~/server/utils/kv-metrics"
+import {
+  buildRedirectDestination,
+  deleteRedirect,
+  findRedirectAliasProblems,
+  getPreferredLanguage,
+  getQRCacheKey,
+  getRedirect,
+  getRedirectAliasSlug,
+  getRedirectAvailability,
+  listRedirectSlugs,
+  pickRedirectVariant,
+  putRedirect,
+  resolveRedirectAlias,
+  selectRedirectTarget,
+  signVariantAssignment,
+  validateRedirectSchedule,
+  verifyVariantAssignment
+} from "~/server/utils/redirects"
+import { CreateRedirectSchema, UpdateRedirectSchema, UrlRedirectSchema } from "~/server/utils/schemas"
+import { createMockKV } from "./cloudflare-mocks"
+
+describe("Redirect storage", () => {
+  let kv: ReturnType<typeof createMockKV>
+
+  beforeEach(() => {
+    kv = createMockKV({
+      "redirect:github": "https://github.com/daveio",
+      "metrics:redirect:github:ok": "42"
+    })
+  })
+
+  describe("getRedirect", () => {
+    it("should return legacy redirects without fabricated timestamps", async () => {
+      const redirect = await getRedirect(kv, "github")
+
+      expect(redirect).toEqual({ slug: "github", url: "https://github.com/daveio", clicks: 42 })
+      expect(UrlRedirectSchema.safeParse(redirect).success).toBe(true)
+    })
+
+    it("should return null for unknown slugs", async () => {
+      expect(await getRedirect(kv, "missing")).toBeNull()
+    })
+  })
+
+  describe("putRedirect", () => {
+    it("should store metadata under meta:redirect keys", async () => {
+      const redirect = await putRedirect(kv, "blog", {
+        url: "https://blog.dave.io",
+        title: "Blog",
+        description: "Dave's blog"
+      })
+
+      expect(kv.store.get("redirect:blog")).toBe("https://blog.dave.io")
+      expect(kv.store.get("meta:redirect:blog:title")).toBe("Blog")
+      expect(kv.store.get("meta:redirect:blog:description")).toBe("Dave's blog")
+      expect(kv.store.get("meta:redirect:blog:created-at")).toBe(redirect.created_at)
+      expect(kv.store.get("meta:redirect:blog:updated-at")).toBe(redirect.updated_at)
+
+      expect(await getRedirect(kv, "blog")).toEqual(redirect)
+    })
+
+    it("should preserve created_at and clear omitted fields on replace", async () => {
+      const created = await putRedirect(kv, "blog", { url: "https://blog.dave.io", title: "Blog" })
+      const existing = await getRedirect(kv, "blog")
+      const replaced = await putRedirect(kv, "blog", { url: "https://notes.dave.io" }, existing)
+
+      expect(replaced.created_at).toBe(created.created_at)
+      expect(replaced.title).toBeUndefined()
+      expect(kv.store.has("meta:redirect:blog:title")).toBe(false)
+    })
+
+    it("should store schedule and click limit fields", async () => {
+      await putRedirect(kv, "launch", {
+        url: "https://dave.io/launch",
+        not_before: "2025-01-01T00:00:00.000Z",
+        expires_at: "2025-02-01T00:00:00.000Z",
+        max_clicks: 100
+      })
+
+      expect(kv.store.get("meta:redirect:launch:not-before")).toBe("2025-01-01T00:00:00.000Z")
+      expect(kv.store.get("meta:redirect:launch:max-clicks")).toBe("100")
+
+      const redirect = await getRedirect(kv, "launch")
+      expect(redirect?.max_clicks).toBe(100)
+      expect(redirect?.expires_at).toBe("2025-02-01T00:00:00.000Z")
+    })
+
+    it("should count max_clicks from when the limit was set", async () => {
+      kv.store.set("metrics:redirect:launch:ok", "40")
+      await putRedirect(kv, "launch", { url: "https://dave.io/launch", max_clicks: 10 })
+      expect(kv.store.get("meta:redirect:launch:max-clicks-baseline")).toBe("40")
+
+      kv.store.set("metrics:redirect:launch:ok", "49")
+      const existing = await getRedirect(kv, "launch")
+      expect(getRedirectAvailability(existing!)).toBe("active")
+
+      // Keeping the limit keeps its baseline; changing it starts the count again
+      await putRedirect(kv, "launch", { url: "https://dave.io/new", max_clicks: 10 }, existing)
+      expect(getRedirectAvailability((await getRedirect(kv, "launch"))!)).toBe("active")
+      kv.store.set("metrics:redirect:launch:ok", "50")
+      expect(getRedirectAvailability((await getRedirect(kv, "launch"))!)).toBe("exhausted")
+
+      await putRedirect(kv, "launch", { url: "https://dave.io/new", max_clicks: 20 }, await getRedirect(kv, "launch"))
+      expect((await getRedirect(kv, "launch"))?.max_clicks_baseline).toBe(50)
+
+      await putRedirect(kv, "launch", { url: "https://dave.io/new" }, await getRedirect(kv, "launch"))
+      expect(kv.store.has("meta:redirect:launch:max-clicks-baseline")).toBe(false)
+    })
+  })
+
+  describe("targeting rules", () => {
+    const rules = [
+      { type: "country" as const, values: ["GB", "IE"], url: "https://dave.io/uk" },
+      { type: "platform" as const, values: ["ios"], url: "https://apps.apple.com/app" },
+      { type: "language" as const, values: ["pt"], url: "https://dave.io/pt" }
+    ]
+
+    it("should store rules under one key and load them in order without listing keys", async () => {
+      await putRedirect(kv, "talk", { url: "https://dave.io/talk", rules })
+      const list = vi.spyOn(kv, "list")
+
+      expect(JSON.parse(kv.store.get("meta:redirect:talk:rules")!)).toEqual(rules)
+      expect((await getRedirect(kv, "talk"))?.rules).toEqual(rules)
+      expect(list).not.toHaveBeenCalled()
+    })
+
+    it("should ignore stored rules that don't parse or validate", async () => {
+      await putRedirect(kv, "talk", { url: "https://dave.io/talk" })
+
+      kv.store.set("meta:redirect:talk:rules", "{not json")
+      expect((await getRedirect(kv, "talk"))?.rules).toBeUndefined()
+      kv.store.set(
+        "meta:redirect:talk:rules",
+        JSON.stringify([{ type: "planet", values: ["mars"], url: "https://dave.io" }])
+      )
+      expect((await getRedirect(kv, "talk"))?.rules).toBeUndefined()
+    })
+
+    it("should remove rules when the list is cleared or the redirect is deleted", async () => {
+      await putRedirect(kv, "talk", { url: "https://dave.io/talk", rules })
+      await putRedirect(kv, "talk", { url: "https://dave.io/talk", rules: [rules[2]!] })
+      expect((await getRedirect(kv, "talk"))?.rules).toEqual([rules[2]])
+
+      await putRedirect(kv, "talk", { url: "https://dave.io/talk", rules: [] })
+      expect(kv.store.has("meta:redirect:talk:rules")).toBe(false)
+
+      await putRedirect(kv, "talk", { url: "https://dave.io/talk", rules })
+      await deleteRedirect(kv, "talk")
+      expect([...kv.store.keys()].some((key) => key.startsWith("meta:redirect:talk:"))).toBe(false)
+    })
+
+    it("should pick the first matching rule or fall back to the redirect URL", () => {
+      const redirect = { slug: "talk", url: "https://dave.io/talk", clicks: 0, rules }
+
+      expect(selectRedirectTarget(redirect, { country: "GB", platform: "ios" })).toEqual({
+        url: "https://dave.io/uk",
+        rule: "0"
+      })
+      expect(selectRedirectTarget(redirect, { country: "US", platform: "ios" }).rule).toBe("1")
+      expect(selectRedirectTarget(redirect, { country: "US", platform: "desktop", language: "pt-br" }).rule).toBe("2")
+      expect(selectRedirectTarget(redirect, { country: "US", platform: "android", language: "en" })).toEqual({
+        url: "https://dave.io/talk",
+        rule: "fallback"
+      })
+    })
+
+    it("should read the preferred language and platform from request headers", () => {
+      expect(getPreferredLanguage("en-GB;q=0.8, pt-BR, *;q=0.1")).toBe("pt-br")
+      expect(getPreferredLanguage(undefined)).toBeUndefined()
+      expect(classifyPlatform("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)")).toBe("ios")
+      expect(classifyPlatform("Mozilla/5.0 (Linux; Android 14; Pixel 8)")).toBe("android")
+      expect(classifyPlatform("Mozilla/5.0 (Windows NT 10.0; Win64; x64)")).toBe("desktop")
+    })
+  })
+
+  describe("A/B variants", () => {
+    const variants = [
+      { url: "https://dave.io/a", weight: 70 },
+      { url: "https://dave.io/b", weight: 30 }
+    ]
+
+    it("should store variants alongside rules", async () => {
+      const rules = [{ type: "country" as const, values: ["GB"], url: "https://dave.io/uk" }]
+      await putRedirect(kv, "campaign", { url: "https://dave.io", rules, variants })
+
+      expect(JSON.parse(kv.store.get("meta:redirect:campaign:variants")!)).toEqual(variants)
+      expect(await getRedirect(kv, "campaign")).toMatchObject({ rules, variants })
+    })
+
+    it("should pick variants in proportion to their weights", () => {
+      expect(pickRedirectVariant(variants, 0)).toBe(0)
+      expect(pickRedirectVariant(variants, 0.69)).toBe(0)
+      expect(pickRedirectVariant(variants, 0.7)).toBe(1)
+      expect(pickRedirectVariant(variants, 0.99)).toBe(1)
+    })
+
+    it("should only accept untampered assignments for unchanged variants", async () => {
+      const cookie = await signVariantAssignment("secret", "campaign", 1, variants[1]!)
+
+      expect(await verifyVariantAssignment("secret", "campaign", variants, cookie)).toBe(1)
+      expect(await verifyVariantAssignment("other", "campaign", variants, cookie)).toBeNull()
+      expect(await verifyVariantAssignment("secret", "campaign", variants, cookie.replace(/^1/, "0"))).toBeNull()
+      expect(
+        await verifyVariantAssignment(
+          "secret",
+          "campaign",
+          [variants[0]!, { url: "https://dave.io/c", weight: 30 }],
+          cookie
+        )
+      ).toBeNull()
+      expect(await verifyVariantAssignment("secret", "campaign", variants, undefined)).toBeNull()
+    })
+
+    it("should not sign assignments with the secret itself", async () => {
+      const cookie = await signVariantAssignment("secret", "campaign", 1, variants[1]!)
+      const key = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode("secret"),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+      )
+      const raw = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`campaign:1:${variants[1]!.url}`))
+
+      expect(cookie).not.toBe(`1.${Buffer.from(raw).toString("base64url")}`)
+    })
+  })
+
+  describe("passthrough options", () => {
+    it("should store forwarding flags and status code", async () => {
+      await putRedirect(kv, "gh", {
+        url: "https://github.com/daveio",
+        forward_query: true,
+        forward_path: true,
+        status_code: 308
+      })
+
+      expect(kv.store.get("meta:redirect:gh:forward-path")).toBe("true")
+      expect(await getRedirect(kv, "gh")).toMatchObject({ forward_query: true, forward_path: true, status_code: 308 })
+
+      await putRedirect(kv, "gh", { url: "https://github.com/daveio", forward_query: false })
+      expect(kv.store.has("meta:redirect:gh:forward-query")).toBe(false)
+    })
+
+    it("should append extra path segments to the destination", () => {
+      expect(buildRedirectDestination("https://github.com/daveio", { path: "some/repo" })).toBe(
+        "https://github.com/daveio/some/repo"
+      )
+      expect(buildRedirectDestination("https://dave.io/docs/?v=1", { path: "a b" })).toBe(
+        "https://dave.io/docs/a%20b?v=1"
+      )
+      expect(() => buildRedirectDestination("https://github.com/daveio", { path: "../evil" })).toThrow()
+    })
+
+    it("should forward query parameters, replacing duplicates", () => {
+      const query = new URLSearchParams("utm_source=talk&utm_medium=slides")
+      expect(buildRedirectDestination("https://dave.io/?utm_source=site&ref=1", { query })).toBe(
+        "https://dave.io/?ref=1&utm_source=talk&utm_medium=slides"
+      )
+    })
+  })
+
+  describe("alias chains", () => {
+    const context = { country: "GB", platform: "desktop" }
+
+    it("should recognise same-origin /go/ links as aliases", () => {
+      expect(getRedirectAliasSlug("https://dave.io/go/bluesky")).toBe("bluesky")
+      expect(getRedirectAliasSlug("https://www.dave.io/go/key/")).toBe("key")
+      expect(getRedirectAliasSlug("http://localhost:3000/go/key", ["http://localhost:3000"])).toBe("key")
+      expect(getRedirectAliasSlug("https://dave.io/go/key?utm_source=x")).toBeNull()
+      expect(getRedirectAliasSlug("https://dave.io/go/key+")).toBeNull()
+      expect(getRedirectAliasSlug("https://dave.io/go/key/extra")).toBeNull()
+      expect(getRedirectAliasSlug("https://example.com/go/key")).toBeNull()
+    })
+
+    it("should not treat malformed percent-encoding as an alias", async () => {
+      expect(getRedirectAliasSlug("https://dave.io/go/%E0%A4%A")).toBeNull()
+      expect(await resolveRedirectAlias(kv, "bad", "https://dave.io/go/%E0%A4%A", context)).toEqual({
+        url: "https://dave.io/go/%E0%A4%A",
+        hops: []
+      })
+    })
+
+    it("should follow aliases to the final destination", async () => {
+      kv.store.set("redirect:key", "https://dave.io/go/pgp")
+      kv.store.set("redirect:pgp", "https://keys.openpgp.org/dave")
+
+      expect(await resolveRedirectAlias(kv, "gpg", "https://dave.io/go/key", context)).toEqual({
+        url: "https://keys.openpgp.org/dave",
+        hops: [
+          { slug: "key", rule: "fallback" },
+          { slug: "pgp", rule: "fallback" }
+        ]
+      })
+      expect(await resolveRedirectAlias(kv, "gh", "https://github.com/daveio", context)).toEqual({
+        url: "https://github.com/daveio",
+        hops: []
+      })
+    })
+
+    it("should apply targeting rules on each hop", async () => {
+      await putRedirect(kv, "app", {
+        url: "https://dave.io/app",
+        rules: [{ type: "country", values: ["GB"], url: "https://dave.io/uk" }]
+      })
+
+      expect(await resolveRedirectAlias(kv, "a", "https://dave.io/go/app", context)).toEqual({
+        url: "https://dave.io/uk",
+        hops: [{ slug: "app", rule: "0" }]
+      })
+    })
+
+    it("should end at expired or exhausted hops as unavailable", async () => {
+      await putRedirect(kv, "old", { url: "https://dave.io/old", expires_at: "2000-01-01T00:00:00.000Z" })
+      await putRedirect(kv, "limited", { url: "https://dave.io/go/old", max_clicks: 10 })
+      await putRedirect(kv, "used", { url: "https://dave.io/used", max_clicks: 10 })
+      kv.store.set("metrics:redirect:used:ok", "10")
+
+      expect(await resolveRedirectAlias(kv, "x", "https://dave.io/go/limited", context)).toEqual({
+        url: "https://dave.io/go/old",
+        hops: [{ slug: "limited", rule: "fallback" }],
+        unavailable: { slug: "old", availability: "expired" }
+      })
+      expect(await resolveRedirectAlias(kv, "x", "https://dave.io/go/used", context)).toEqual({
+        url: "https://dave.io/go/used",
+        hops: [],
+        unavailable: { slug: "used", availability: "exhausted" }
+      })
+    })
+
+    it("should stop at missing, scheduled or split hops", async () => {
+      await putRedirect(kv, "soon", { url: "https://dave.io/soon", not_before: "2999-01-01T00:00:00.000Z" })
+      await putRedirect(kv, "ab", {
+        url: "https://dave.io/a",
+        variants: [
+          { url: "https://dave.io/a", weight: 1 },
+          { url: "https://dave.io/b", weight: 1 }
+        ]
+      })
+
+      for (const target of ["https://dave.io/go/missing", "https://dave.io/go/soon", "https://dave.io/go/ab"]) {
+        expect(await resolveRedirectAlias(kv, "x", target, context)).toEqual({ url: target, hops: [] })
+      }
+    })
+
+    it("should reject cycles and stop at the depth limit", async () => {
+      kv.store.set("redirect:ping", "https://dave.io/go/pong")
+      kv.store.set("redirect:pong", "https://dave.io/go/ping")
+      await expect(resolveRedirectAlias(kv, "ping", "https://dave.io/go/pong", context)).rejects.toMatchObject({
+        statusCode: 508
+      })
+
+      for (let i = 1; i <= 3; i++) {
+        kv.store.set(`redirect:hop${i}`, `https://dave.io/go/hop${i + 1}`)
+      }
+      expect(await resolveRedirectAlias(kv, "start", "https://dave.io/go/hop1", context, { maxDepth: 2 })).toEqual({
+        url: "https://dave.io/go/hop3",
+        hops: [
+          { slug: "hop1", rule: "fallback" },
+          { slug: "hop2", rule: "fallback" }
+        ]
+      })
+    })
+
+    it("should report alias cycles and dangling aliases in import data", () => {
+      expect(
+        findRedirectAliasProblems({
+          "redirect:gpg": "https://dave.io/go/key",
+          "redirect:key": "https://keys.openpgp.org/dave",
+          "redirect:a": "https://dave.io/go/b",
+          "redirect:b": "https://dave.io/go/c",
+          "redirect:c": "https://dave.io/go/a",
+          "redirect:self": "https://dave.io/go/self",
+          "redirect:app": "https://dave.io/app",
+          "meta:redirect:app:rules": JSON.stringify([
+            { type: "country", values: ["GB"], url: "https://dave.io/go/gone" }
+          ]),
+          "redirect:ab": "https://dave.io/ab",
+          "meta:redirect:ab:variants": [{ url: "https://dave.io/go/app", weight: 1 }]
+        })
+      ).toEqual({
+        cycles: [
+          ["a", "b", "c", "a"],
+          ["self", "self"]
+        ],
+        dangling: [{ slug: "app", target: "gone" }]
+      })
+    })
+  })
+
+  describe("getRedirectAvailability", () => {
+    const base = { slug: "launch", url: "https://dave.io/launch", clicks: 0 }
+    const now = Date.parse("2025-01-15T00:00:00Z")
+
+    it("should treat redirects without limits as active", () => {
+      expect(getRedirectAvailability(base, now)).toBe("active")
+    })
+
+    it("should honour not_before and expires_at", () => {
+      expect(getRedirectAvailability({ ...base, not_before: "2025-01-20T00:00:00Z" }, now)).toBe("scheduled")
+      expect(getRedirectAvailability({ ...base, expires_at: "2025-01-15T00:00:00Z" }, now)).toBe("expired")
+      expect(
+        getRedirectAvailability(
+          { ...base, not_before: "2025-01-01T00:00:00Z", expires_at: "2025-02-01T00:00:00Z" },
+          now
+        )
+      ).toBe("active")
+    })
+
+    it("should stop after max_clicks", () => {
+      expect(getRedirectAvailability({ ...base, clicks: 9, max_clicks: 10 }, now)).toBe("active")
+      expect(getRedirectAvailability({ ...base, clicks: 10, max_clicks: 10 }, now)).toBe("exhausted")
+      expect(getRedirectAvailability({ ...base, clicks: 19, max_clicks: 10, max_clicks_baseline: 10 }, now)).toBe(
+        "active"
+      )
+    })
+  })
+
+  describe("validateRedirectSchedule", () => {
+    it("should reject a schedule that ends before it starts", () => {
+      expect(() =>
+        validateRedirectSchedule({
+          url: "https://dave.io",
+          not_before: "2025-02-01T00:00:00Z",
+          expires_at: "2025-01-01T00:00:00Z"
+        })
+      ).toThrow()
+      expect(() =>
+        validateRedirectSchedule({ url: "https://dave.io", expires_at: "2025-01-01T00:00:00Z" })
+      ).not.toThrow()
+    })
+  })
+
+  describe("QR code cache", () => {
+    it("should drop cached QR codes when the redirect changes or is deleted", async () => {
+      const options = { format: "svg", size: 512, margin: 4, ecc: "M" }
+      await kv.put(getQRCacheKey("github", options), "<svg/>")
+      await putRedirect(kv, "github", { url: "https://github.com/daveio/dave-io" })
+      expect(kv.store.has("qr:github:svg:512:4:M")).toBe(false)
+
+      await kv.put(getQRCacheKey("github", { ...options, format: "png" }), "png")
+      await deleteRedirect(kv, "github")
+      expect([...kv.store.keys()].some((key) => key.startsWith("qr:github:"))).toBe(false)
+    })
+  })
+
+  describe("deleteRedirect", () => {
+    it("should remove the redirect and metadata but keep metrics", async () => {
+      await putRedirect(kv, "github", { url: "https://github.com/daveio", title: "GitHub" })
+      await deleteRedirect(kv, "github")
+
+      expect(kv.store.has("redirect:github")).toBe(false)
+      expect(kv.store.has("meta:redirect:github:title")).toBe(false)
+      expect(kv.store.get("metrics:redirect:github:ok")).toBe("42")
+    })
+  })
+
+  describe("listRedirectSlugs", () => {
+    it("should list slugs alphabetically without metadata keys", async () => {
+      await putRedirect(kv, "blog", { url: "https://blog.dave.io", title: "Blog" })
+
+      expect(await listRedirectSlugs(kv)).toEqual(["blog", "github"])
+    })
+  })
+})
+
+describe("Redirect request schemas", () => {
+  it("should validate create requests with the slug from the path", () => {
+    expect(CreateRedirectSchema.safeParse({ slug: "gh", url: "https://github.com" }).success).toBe(true)
+    expect(CreateRedirectSchema.safeParse({ slug: "bad slug", url: "https://github.com" }).success).toBe(false)
+    expect(CreateRedirectSchema.safeParse({ slug: "gh", url: "not-a-url" }).success).toBe(false)
+  })
+
+  it("should allow partial updates without a slug", () => {
+    expect(UpdateRedirectSchema.safeParse({ title: "New title" }).success).toBe(true)
+    expect(UpdateRedirectSchema.safeParse({ url: "not-a-url" }).success).toBe(false)
+  })
+
+  it("should validate schedule and click limit fields", () => {
+    const redirect = { slug: "gh", url: "https://github.com" }
+    expect(CreateRedirectSchema.safeParse({ ...redirect, expires_at: "2025-01-01T00:00:00Z" }).success).toBe(true)
+    expect(CreateRedirectSchema.safeParse({ ...redirect, expires_at: "next tuesday" }).success).toBe(false)
+    expect(CreateRedirectSchema.safeParse({ ...redirect, max_clicks: 0 }).success).toBe(false)
+    expect(UpdateRedirectSchema.safeParse({ max_clicks: null, expires_at: null }).success).toBe(true)
+  })
+
+  it("should only accept redirect status codes", () => {
+    const redirect = { slug: "gh", url: "https://github.com" }
+    expect(CreateRedirectSchema.safeParse({ ...redirect, status_code: 301 }).success).toBe(true)
+    expect(CreateRedirectSchema.safeParse({ ...redirect, status_code: 200 }).success).toBe(false)
+  })
+})
+
+describe("Go pages", () => {
+  it("should escape content in rendered pages", () => {
+    const html = renderGoPage({
+      title: "Link Expired",
+      heading: "Link Expired",
+      message: "<script>alert(1)</script>",
+      tone: "error"
+    })
+
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;")
+    expect(html).not.toContain("<script>")
+    expect(escapeHtml(`"'&`)).toBe("&quot;&#x27;&amp;")
+  })
+
+  it("should render previews with card meta and safe links", () => {
+    const content = getRedirectPreviewContent({
+      slug: "gh",
+      url: "https://github.com/daveio",
+      title: "Dave on GitHub",
+      clicks: 1234
+    })
+    const html = renderGoPage(content)
+
+    expect(html).toContain('<meta property="og:title" content="Dave on GitHub">')
+    expect(html).toContain('<meta name="twitter:card" content="summary">')
+    expect(html).toContain('<meta property="og:url" content="https://dave.io/go/gh">')
+    expect(html).toContain('<dd><a href="https://github.com/daveio"')
+    expect(html).toContain("<dd>1,234</dd>")
+
+    const unsafe = renderGoPage({ ...content, details: [{ label: "Destination", value: "javascript:alert(1)" }] })
+    expect(unsafe).not.toContain('href="javascript:')
+  })
+
+  it("should fall back to the destination host when a redirect has no title", () => {
+    const content = getRedirectPreviewContent({ slug: "gh", url: "https://github.com/daveio", clicks: 0 })
+
+    expect(content.heading).toBe("github.com")
+    expect(content.meta?.["og:description"]).toBe("Short link to https://github.com/daveio")
+  })
+
+  it("should recognise link unfurlers", () => {
+    expect(isLinkUnfurlerUserAgent("Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)")).toBe(true)
+    expect(isLinkUnfurlerUserAgent("Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)")).toBe(true)
+    expect(isLinkUnfurlerUserAgent("Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Safari/605.1.15")).toBe(false)
+  })
+})
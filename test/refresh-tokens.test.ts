@@ -0,0 +1,356 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import type { H3Event } from "h3"
+import { decodeProtectedHeader, exportJWK, generateKeyPair } from "jose"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { hashAPIKey } from "~/server/utils/api-keys"
+import { signAccessToken, signJWT, verifyJWT } from "~/server/utils/auth"
+import { getSigningKeyEntries } from "~/server/utils/jwks"
+import type { JWTKeyStatus } from "~/server/utils/jwks"
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  generateRefreshToken,
+  REFRESH_TOKEN_PREFIX,
+  revokeRefreshTokensIssuedBefore,
+  rotateRefreshToken
+} from "~/server/utils/refresh-tokens"
+import type { RefreshTokenRecord } from "~/server/utils/refresh-tokens"
+import { revocationCache } from "~/server/utils/revocation"
+import { createMockD1, createMockKV } from "./cloudflare-mocks"
+
+type Row = Record<string, unknown>
+
+// In-memory stand-in for the refresh_tokens table, answering the statements the module prepares
+function createRefreshTokensD1(rows: Row[], options: { failInserts?: boolean } = {}) {
+  const db = createMockD1((sql, args) => {
+    if (sql.startsWith("SELECT * FROM refresh_tokens")) {
+      const row = rows.find((r) => r.token_hash === args[0])
+      return { results: row ? [{ ...row }] : [] }
+    }
+    if (sql.startsWith("SELECT access_jti")) {
+      const live = rows.filter((r) => r.family_id === args[0] && r.access_jti && String(r.used_at) >= String(args[1]))
+      return { results: live.map((r) => ({ access_jti: r.access_jti })) }
+    }
+    if (sql.startsWith("UPDATE refresh_tokens SET used_at")) {
+      const row = rows.find((r) => r.id === args[2] && !r.used_at && !r.revoked_at)
+      Object.assign(row ?? {}, { used_at: args[0], access_jti: args[1] })
+      return { changes: row ? 1 : 0 }
+    }
+    if (sql.includes("GROUP BY family_id")) {
+      const [revokedAt, sub, cutoff] = args as [string, string | null, string]
+      const started = new Map<unknown, string>()
+      for (const r of rows.filter((r) => sub === null || r.sub === sub)) {
+        const createdAt = String(r.created_at)
+        started.set(r.family_id, [started.get(r.family_id) ?? createdAt, createdAt].sort()[0] as string)
+      }
+      const revoked = rows.filter((r) => !r.revoked_at && (started.get(r.family_id) ?? cutoff) < cutoff)
+      for (const row of revoked) {
+        row.revoked_at = revokedAt
+      }
+      return { changes: revoked.length }
+    }
+    if (sql.startsWith("UPDATE refresh_tokens SET revoked_at")) {
+      const family = rows.filter((r) => r.family_id === args[1] && !r.revoked_at)
+      for (const row of family) {
+        row.revoked_at = args[0]
+      }
+      return { changes: family.length }
+    }
+    if (sql.startsWith("INSERT INTO refresh_tokens")) {
+      if (options.failInserts) {
+        throw new Error("D1_ERROR: insert failed")
+      }
+      // The replacement is only inserted when this exchange's access_jti claimed the old token
+      if (!rows.some((r) => r.id === args[7] && r.access_jti === args[8])) {
+        return { changes: 0 }
+      }
+      const [id, family_id, token_hash, sub, permissions, created_at, expires_at] = args
+      rows.push({ id, family_id, token_hash, sub, permissions, created_at, expires_at })
+      return { changes: 1 }
+    }
+    throw new Error(`Unexpected SQL: ${sql}`)
+  })
+
+  // D1 runs a batch as one transaction, so a failing statement rolls back the others
+  const batch = db.batch.bind(db)
+  db.batch = (async (statements: D1PreparedStatement[]) => {
+    const snapshot = rows.map((row) => ({ ...row }))
+    try {
+      return await batch(statements)
+    } catch (error) {
+      rows.splice(0, rows.length, ...snapshot)
+      throw error
+    }
+  }) as typeof db.batch
+
+  return db
+}
+
+async function createFamily(overrides: Row = {}, options?: { failInserts?: boolean }) {
+  const token = generateRefreshToken()
+  const rows: Row[] = [
+    {
+      id: "family-1",
+      family_id: "family-1",
+      token_hash: await hashAPIKey(token),
+      sub: "dashboard",
+      permissions: JSON.stringify(["api:metrics"]),
+      created_at: "2026-01-01T00:00:00.000Z",
+      expires_at: "2026-02-01T00:00:00.000Z",
+      ...overrides
+    }
+  ]
+  return { token, rows, db: createRefreshTokensD1(rows, options) }
+}
+
+const now = Date.parse("2026-01-10T00:00:00.000Z")
+
+describe("Refresh tokens", () => {
+  it("should rotate a refresh token within its family", async () => {
+    const { token, rows, db } = await createFamily()
+
+    const exchange = await rotateRefreshToken(db, token, now)
+
+    expect(exchange).toMatchObject({
+      success: true,
+      record: {
+        familyId: "family-1",
+        sub: "dashboard",
+        permissions: ["api:metrics"],
+        createdAt: "2026-01-10T00:00:00.000Z",
+        expiresAt: "2026-02-01T00:00:00.000Z"
+      }
+    })
+    if (!exchange.success) {
+      return
+    }
+    expect(exchange.token).toMatch(new RegExp(`^${REFRESH_TOKEN_PREFIX}[0-9a-f]{64}$`))
+    expect(exchange.token).not.toBe(token)
+    expect(rows[0]).toMatchObject({ used_at: "2026-01-10T00:00:00.000Z", access_jti: exchange.accessJti })
+    expect(rows).toHaveLength(2)
+
+    // The replacement works in turn
+    expect(await rotateRefreshToken(db, exchange.token, now + 1000)).toMatchObject({ success: true })
+  })
+
+  it("should reject unknown, revoked and expired refresh tokens", async () => {
+    const { db } = await createFamily()
+    const revoked = await createFamily({ revoked_at: "2026-01-05T00:00:00.000Z" })
+    const expired = await createFamily({ expires_at: "2026-01-05T00:00:00.000Z" })
+
+    expect(await rotateRefreshToken(db, generateRefreshToken(), now)).toEqual({
+      success: false,
+      error: "Invalid refresh token"
+    })
+    expect(await rotateRefreshToken(db, "not-a-token", now)).toEqual({ success: false, error: "Invalid refresh token" })
+    expect(await rotateRefreshToken(revoked.db, revoked.token, now)).toEqual({
+      success: false,
+      error: "Refresh token has been revoked",
+      sub: "dashboard"
+    })
+    expect(await rotateRefreshToken(expired.db, expired.token, now)).toEqual({
+      success: false,
+      error: "Refresh token expired",
+      sub: "dashboard"
+    })
+  })
+
+  it("should revoke the whole family when a used refresh token comes back", async () => {
+    const { token, rows, db } = await createFamily()
+    const first = await rotateRefreshToken(db, token, now)
+    const second = first.success ? await rotateRefreshToken(db, first.token, now + 1000) : first
+    if (!first.success || !second.success) {
+      throw new Error("Expected both exchanges to succeed")
+    }
+
+    expect(await rotateRefreshToken(db, token, now + 2000)).toEqual({
+      success: false,
+      error: "Refresh token reuse detected; all tokens in its family have been revoked",
+      sub: "dashboard",
+      reused: true,
+      familyId: "family-1",
+      revokedAccessJtis: [first.accessJti, second.accessJti]
+    })
+    expect(rows.every((row) => row.revoked_at)).toBe(true)
+    expect(await rotateRefreshToken(db, second.token, now + 3000)).toEqual({
+      success: false,
+      error: "Refresh token has been revoked",
+      sub: "dashboard"
+    })
+  })
+
+  it("should only report access tokens that may still be live", async () => {
+    const { token, db } = await createFamily()
+    await rotateRefreshToken(db, token, now)
+
+    expect(await rotateRefreshToken(db, token, now + (ACCESS_TOKEN_TTL_SECONDS + 1) * 1000)).toMatchObject({
+      reused: true,
+      revokedAccessJtis: []
+    })
+  })
+
+  it("should treat a concurrent exchange of the same token as reuse", async () => {
+    const { token, rows, db } = await createFamily()
+
+    const results = await Promise.all([rotateRefreshToken(db, token, now), rotateRefreshToken(db, token, now)])
+
+    expect(results.filter((result) => result.success)).toHaveLength(1)
+    expect(results.filter((result) => !result.success && result.reused)).toHaveLength(1)
+    // The losing exchange never stored a replacement
+    expect(rows).toHaveLength(2)
+  })
+
+  it("should leave the refresh token unused when its replacement can't be stored", async () => {
+    const options = { failInserts: true }
+    const { token, rows, db } = await createFamily({}, options)
+
+    await expect(rotateRefreshToken(db, token, now)).rejects.toThrow("insert failed")
+    expect(rows).toHaveLength(1)
+    expect(rows[0]?.used_at).toBeUndefined()
+
+    options.failInserts = false
+    expect(await rotateRefreshToken(db, token, now + 1000)).toMatchObject({ success: true })
+  })
+
+  describe("bulk revocation", () => {
+    beforeEach(() => {
+      revocationCache.clear()
+    })
+
+    it("should revoke families started before the cutoff, even after rotating", async () => {
+      const { token, rows, db } = await createFamily()
+      const rotated = await rotateRefreshToken(db, token, now)
+      rows.push({ id: "family-2", family_id: "family-2", sub: "dashboard", created_at: "2026-01-20T00:00:00.000Z" })
+      rows.push({ id: "family-3", family_id: "family-3", sub: "other", created_at: "2026-01-01T00:00:00.000Z" })
+
+      const cutoff = Date.parse("2026-01-15T00:00:00.000Z") / 1000
+      expect(await revokeRefreshTokensIssuedBefore(db, cutoff, "dashboard", now)).toBe(2)
+      expect(rows.filter((row) => row.revoked_at).map((row) => row.family_id)).toEqual(["family-1", "family-1"])
+      expect(rotated.success && (await rotateRefreshToken(db, rotated.token, now + 1000))).toMatchObject({
+        success: false,
+        error: "Refresh token has been revoked"
+      })
+    })
+
+    it("should refuse refresh tokens issued before a subject's cutoff in KV", async () => {
+      const { token, db } = await createFamily()
+      const kv = createMockKV({
+        "revocation:sub:dashboard:issued-before": String(Date.parse("2026-01-05T00:00:00Z") / 1000)
+      })
+
+      expect(await rotateRefreshToken(db, token, now, kv)).toEqual({
+        success: false,
+        error: "Refresh token has been revoked",
+        sub: "dashboard"
+      })
+    })
+  })
+
+  describe("access tokens", () => {
+    const secret = "refresh-token-test-secret"
+
+    beforeEach(() => {
+      const globals = global as unknown as Record<string, unknown>
+      globals.useRuntimeConfig = () => ({ apiJwtSecret: secret, apiJwtIssuer: "", apiJwtAudience: "" })
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    function createEvent(env: Record<string, unknown>) {
+      return {
+        node: { req: { headers: {} }, res: {} as ServerResponse },
+        req: {} as IncomingMessage,
+        context: { cloudflare: { env: { API_JWT_SECRET: secret, ...env } } }
+      } as unknown as H3Event
+    }
+
+    it("should mint 15-minute access tokens bound to the deployment", async () => {
+      const event = createEvent({ API_JWT_ISSUER: "https://dave.io", API_JWT_AUDIENCE: "https://dave.io" })
+      const record = {
+        id: "token-2",
+        familyId: "family-1",
+        sub: "dashboard",
+        permissions: ["api:metrics"],
+        createdAt: "2026-01-10T00:00:00.000Z",
+        expiresAt: "2026-02-01T00:00:00.000Z"
+      }
+
+      const token = await signAccessToken(event, record, "access-1", ACCESS_TOKEN_TTL_SECONDS)
+      const verification = await verifyJWT(token, secret, undefined, {
+        issuer: "https://dave.io",
+        audience: ["https://dave.io"],
+        requireAudience: true
+      })
+
+      expect(verification.success).toBe(true)
+      expect(verification.payload).toMatchObject({
+        sub: "dashboard",
+        jti: "access-1",
+        permissions: ["api:metrics"],
+        iss: "https://dave.io",
+        aud: "https://dave.io"
+      })
+      expect(verification.payload?.exp).toBe((verification.payload?.iat ?? 0) + ACCESS_TOKEN_TTL_SECONDS)
+    })
+
+    it("should leave the refresh token unused when its access token can't be signed", async () => {
+      const { token, rows, db } = await createFamily()
+      const { privateKey } = await generateKeyPair("EdDSA", { extractable: true })
+      const jwk = { ...(await exportJWK(privateKey)), kid: "ed-1", alg: "EdDSA" }
+      // The private key isn't published in KV, so signing refuses it
+      const unpublished = createEvent({ API_JWT_PRIVATE_KEY: JSON.stringify(jwk), KV: createMockKV() })
+      const mint = (event: H3Event) => async (record: RefreshTokenRecord, accessJti: string) => {
+        await signAccessToken(event, record, accessJti, ACCESS_TOKEN_TTL_SECONDS)
+      }
+
+      await expect(rotateRefreshToken(db, token, now, undefined, mint(unpublished))).rejects.toThrow(
+        "not a published signing key"
+      )
+      expect(rows).toHaveLength(1)
+      expect(rows[0]?.used_at).toBeUndefined()
+
+      expect(await rotateRefreshToken(db, token, now + 1000, undefined, mint(createEvent({})))).toMatchObject({
+        success: true
+      })
+    })
+
+    it("should sign with API_JWT_PRIVATE_KEY when it is set", async () => {
+      const { privateKey } = await generateKeyPair("EdDSA", { extractable: true })
+      const jwk = { ...(await exportJWK(privateKey)), kid: "ed-1", alg: "EdDSA" }
+
+      const token = await signJWT(createEvent({ API_JWT_PRIVATE_KEY: JSON.stringify(jwk) }), { sub: "api", iat: 1 })
+
+      expect(decodeProtectedHeader(token)).toEqual({ alg: "EdDSA", kid: "ed-1" })
+    })
+
+    it("should only sign with a private key that is still published", async () => {
+      const { publicKey, privateKey } = await generateKeyPair("EdDSA", { extractable: true })
+      const jwk = { ...(await exportJWK(privateKey)), kid: "ed-1", alg: "EdDSA" }
+      const publicJwk = { ...(await exportJWK(publicKey)), kid: "ed-1", alg: "EdDSA" }
+      const sign = (status?: JWTKeyStatus) =>
+        signJWT(
+          createEvent({
+            API_JWT_PRIVATE_KEY: JSON.stringify(jwk),
+            KV: createMockKV(
+              status
+                ? Object.fromEntries(getSigningKeyEntries({ kid: "ed-1", alg: "EdDSA", status, jwk: publicJwk }))
+                : {}
+            )
+          }),
+          { sub: "api", iat: 1 }
+        )
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+
+      await expect(sign("primary")).resolves.toBeTypeOf("string")
+      expect(warnSpy).not.toHaveBeenCalled()
+      await expect(sign("verify-only")).resolves.toBeTypeOf("string")
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("no longer the primary signing key"))
+      await expect(sign("retired")).rejects.toThrow("not a published signing key")
+      await expect(sign()).rejects.toThrow("not a published signing key")
+
+      warnSpy.mockRestore()
+    })
+  })
+})
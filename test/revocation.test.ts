@@ -0,0 +1,165 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import type { H3Event } from "h3"
+import { SignJWT } from "jose"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { authorizeEndpoint } from "~/server/utils/auth"
+import {
+  checkTokenRevocation,
+  createLRUCache,
+  getRevocationCutoff,
+  isRevocationFailClosed,
+  isRevokedByCutoff,
+  revocationCache,
+  revokeTokensIssuedBefore
+} from "~/server/utils/revocation"
+import { createFailingKV, createMockKV } from "./cloudflare-mocks"
+
+const secret = "revocation-test-secret"
+
+describe("Token revocation", () => {
+  beforeEach(() => {
+    revocationCache.clear()
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("createLRUCache", () => {
+    it("should expire entries after the TTL", () => {
+      const cache = createLRUCache<string>(10, 1000)
+      cache.set("a", "1", 0)
+
+      expect(cache.get("a", 999)).toBe("1")
+      expect(cache.get("a", 1000)).toBeUndefined()
+    })
+
+    it("should evict the least recently used entry when full", () => {
+      const cache = createLRUCache<string>(2, 1000)
+      cache.set("a", "1", 0)
+      cache.set("b", "2", 0)
+      cache.get("a", 0)
+      cache.set("c", "3", 0)
+
+      expect(cache.get("a", 0)).toBe("1")
+      expect(cache.get("b", 0)).toBeUndefined()
+      expect(cache.get("c", 0)).toBe("3")
+      expect(cache.size).toBe(2)
+    })
+  })
+
+  describe("checkTokenRevocation", () => {
+    it("should revoke by jti, subject cutoff and global cutoff", async () => {
+      const kv = createMockKV({
+        "token:jti-1:revoked": "true",
+        "revocation:sub:ci:issued-before": "2000",
+        "revocation:issued-before": "1000"
+      })
+
+      expect(await checkTokenRevocation(kv, { jti: "jti-1", sub: "api", iat: 5000 })).toBe("revoked")
+      expect(await checkTokenRevocation(kv, { jti: "jti-2", sub: "ci", iat: 1500 })).toBe("revoked")
+      expect(await checkTokenRevocation(kv, { jti: "jti-3", sub: "ci", iat: 2000 })).toBe("active")
+      expect(await checkTokenRevocation(kv, { sub: "api", iat: 999 })).toBe("revoked")
+      expect(await checkTokenRevocation(kv, { sub: "api", iat: 1000 })).toBe("active")
+    })
+
+    it("should serve repeat lookups from the cache", async () => {
+      const kv = createMockKV()
+      const token = { jti: "jti-1", sub: "api", iat: 1000 }
+
+      await checkTokenRevocation(kv, token)
+      await checkTokenRevocation(kv, token)
+
+      expect(kv.get).toHaveBeenCalledTimes(3)
+    })
+
+    it("should report unknown when KV fails", async () => {
+      expect(await checkTokenRevocation(createFailingKV(), { sub: "api", iat: 1000 })).toBe("unknown")
+    })
+  })
+
+  it("should combine global and subject cutoffs for credentials that mint tokens", async () => {
+    const kv = createMockKV({ "revocation:issued-before": "1000", "revocation:sub:client:abc:issued-before": "2000" })
+
+    expect(await getRevocationCutoff(kv, "client:abc")).toBe(2000)
+    expect(await getRevocationCutoff(kv, "client:def")).toBe(1000)
+    expect(await isRevokedByCutoff(kv, "client:abc", new Date(1_999_000).toISOString())).toBe(true)
+    expect(await isRevokedByCutoff(kv, "client:abc", new Date(2_000_000).toISOString())).toBe(false)
+  })
+
+  it("should fail closed for configured prefixes and the resources below them", () => {
+    expect(isRevocationFailClosed("ai:alt", ["admin", "ai"])).toBe(true)
+    expect(isRevocationFailClosed("admin", ["admin", "ai"])).toBe(true)
+    expect(isRevocationFailClosed("api:redirects", ["admin", "ai"])).toBe(false)
+    expect(isRevocationFailClosed("api:redirects", ["*"])).toBe(true)
+    expect(isRevocationFailClosed("ai:alt", [])).toBe(false)
+  })
+
+  describe("revokeTokensIssuedBefore", () => {
+    it("should store the cutoff and update the cache", async () => {
+      const kv = createMockKV()
+
+      expect(await revokeTokensIssuedBefore(kv, 2000, "ci")).toBe(2000)
+      expect(kv.store.get("revocation:sub:ci:issued-before")).toBe("2000")
+      expect(await checkTokenRevocation(kv, { sub: "ci", iat: 1999 })).toBe("revoked")
+    })
+
+    it("should never move an existing cutoff earlier", async () => {
+      const kv = createMockKV({ "revocation:issued-before": "3000" })
+
+      expect(await revokeTokensIssuedBefore(kv, 2000)).toBe(3000)
+      expect(kv.store.get("revocation:issued-before")).toBe("3000")
+    })
+  })
+
+  describe("authorizeEndpoint", () => {
+    beforeEach(() => {
+      const globals = global as unknown as Record<string, unknown>
+      globals.getHeader = (event: H3Event, name: string) =>
+        (event as unknown as { node: { req: { headers: Record<string, string> } } }).node.req.headers[name]
+      globals.getQuery = () => ({})
+      globals.useRuntimeConfig = () => ({ apiJwtSecret: secret, apiRevocationFailClosed: "admin,ai" })
+      vi.spyOn(console, "log").mockImplementation(() => {})
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+    })
+
+    async function createEvent(env: Record<string, unknown>) {
+      const token = await new SignJWT({ sub: "*", iat: Math.floor(Date.now() / 1000) })
+        .setProtectedHeader({ alg: "HS256" })
+        .sign(new TextEncoder().encode(secret))
+
+      return {
+        node: { req: { headers: { authorization: `Bearer ${token}` } }, res: {} as ServerResponse },
+        req: {} as IncomingMessage,
+        context: { cloudflare: { env: { API_JWT_SECRET: secret, ...env } } }
+      } as unknown as H3Event
+    }
+
+    it("should refuse fail-closed resources when revocation state is unknown", async () => {
+      const event = await createEvent({ KV: createFailingKV() })
+
+      expect(await (await authorizeEndpoint("ai", "alt"))(event)).toEqual({
+        success: false,
+        error: "Token revocation status unavailable",
+        statusCode: 503
+      })
+      expect(await (await authorizeEndpoint("api", "redirects"))(event)).toMatchObject({ success: true })
+    })
+
+    it("should follow API_REVOCATION_FAIL_CLOSED", async () => {
+      const event = await createEvent({ KV: createFailingKV(), API_REVOCATION_FAIL_CLOSED: "" })
+
+      expect(await (await authorizeEndpoint("ai", "alt"))(event)).toMatchObject({ success: true })
+    })
+
+    it("should reject tokens revoked in bulk", async () => {
+      const kv = createMockKV({ "revocation:sub:*:issued-before": String(Math.floor(Date.now() / 1000) + 1) })
+
+      expect(await (await authorizeEndpoint("api"))(await createEvent({ KV: kv }))).toEqual({
+        success: false,
+        error: "Token has been revoked"
+      })
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import type { H3Event } from "h3"
+import { SignJWT } from "jose"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { authorizeEndpoint } from "~/server/utils/auth"
+import { checkTokenBinding, isIPInRange, isValidIPRange, normaliseOrigin, parseIP } from "~/server/utils/token-binding"
+
+const secret = "token-binding-test-secret"
+
+describe("Token binding", () => {
+  describe("IP ranges", () => {
+    it("should parse IPv4 and IPv6 addresses", () => {
+      expect(parseIP("192.0.2.1")).toEqual({ version: 4, value: 0xc0000201n })
+      expect(parseIP("::1")).toEqual({ version: 6, value: 1n })
+      expect(parseIP("2001:db8::")).toEqual({ version: 6, value: 0x20010db8n << 96n })
+      expect(parseIP("::ffff:192.0.2.1")).toEqual({ version: 6, value: 0xffffc0000201n })
+      expect(parseIP("256.0.0.1")).toBeNull()
+      expect(parseIP("1:2:3:4:5:6:7:8:9")).toBeNull()
+      expect(parseIP("1::2::3")).toBeNull()
+      expect(parseIP("example.com")).toBeNull()
+    })
+
+    it("should match addresses against CIDR ranges and single hosts", () => {
+      expect(isIPInRange("203.0.113.42", "203.0.113.0/24")).toBe(true)
+      expect(isIPInRange("203.0.114.1", "203.0.113.0/24")).toBe(false)
+      expect(isIPInRange("198.51.100.7", "198.51.100.7")).toBe(true)
+      expect(isIPInRange("198.51.100.8", "198.51.100.7")).toBe(false)
+      expect(isIPInRange("10.1.2.3", "0.0.0.0/0")).toBe(true)
+      expect(isIPInRange("2001:db8:1::5", "2001:db8::/32")).toBe(true)
+      expect(isIPInRange("2001:db9::5", "2001:db8::/32")).toBe(false)
+    })
+
+    it("should not match across IP versions or invalid ranges", () => {
+      expect(isIPInRange("192.0.2.1", "::/0")).toBe(false)
+      expect(isIPInRange("192.0.2.1", "192.0.2.0/33")).toBe(false)
+      expect(isIPInRange("192.0.2.1", "192.0.2.0/")).toBe(false)
+      expect(isValidIPRange("2001:db8::/48")).toBe(true)
+      expect(isValidIPRange("192.0.2.0/abc")).toBe(false)
+    })
+  })
+
+  it("should normalise origins", () => {
+    expect(normaliseOrigin("HTTPS://Dave.IO:443/path")).toBe("https://dave.io")
+    expect(normaliseOrigin("http://localhost:3000")).toBe("http://localhost:3000")
+    expect(normaliseOrigin("null")).toBeNull()
+    expect(normaliseOrigin("not an origin")).toBeNull()
+  })
+
+  describe("checkTokenBinding", () => {
+    const claims = { ip_allow: ["203.0.113.0/24", "2001:db8::/32"], origin_allow: ["https://dave.io"] }
+
+    it("should allow tokens without binding claims from anywhere", () => {
+      expect(checkTokenBinding({}, {})).toBeNull()
+      expect(checkTokenBinding({ ip_allow: [], origin_allow: [] }, {})).toBeNull()
+    })
+
+    it("should allow requests from a bound IP and origin", () => {
+      expect(checkTokenBinding(claims, { ip: "2001:db8::1", origin: "https://dave.io" })).toBeNull()
+    })
+
+    it("should refuse other IPs and origins", () => {
+      expect(checkTokenBinding(claims, { ip: "198.51.100.1", origin: "https://dave.io" })).toBe(
+        "Token not allowed from IP address 198.51.100.1"
+      )
+      expect(checkTokenBinding(claims, { ip: "203.0.113.9", origin: "https://evil.example" })).toBe(
+        "Token not allowed from origin https://evil.example"
+      )
+    })
+
+    it("should refuse requests missing the IP or Origin", () => {
+      expect(checkTokenBinding(claims, { origin: "https://dave.io" })).toBe("Token not allowed from IP address unknown")
+      expect(checkTokenBinding(claims, { ip: "203.0.113.9" })).toBe("Token not allowed from origin unknown")
+    })
+  })
+
+  describe("authorizeEndpoint", () => {
+    beforeEach(() => {
+      const globals = global as unknown as Record<string, unknown>
+      globals.getHeader = (event: H3Event, name: string) =>
+        (event as unknown as { node: { req: { headers: Record<string, string> } } }).node.req.headers[name]
+      globals.getQuery = () => ({})
+      globals.useRuntimeConfig = () => ({ apiJwtSecret: secret })
+      vi.spyOn(console, "log").mockImplementation(() => {})
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    async function createEvent(headers: Record<string, string>) {
+      const token = await new SignJWT({ sub: "api", iat: Math.floor(Date.now() / 1000), ip_allow: ["203.0.113.0/24"] })
+        .setProtectedHeader({ alg: "HS256" })
+        .sign(new TextEncoder().encode(secret))
+
+      return {
+        node: { req: { headers: { authorization: `Bearer ${token}`, ...headers } }, res: {} as ServerResponse },
+        req: {} as IncomingMessage,
+        context: { cloudflare: { env: { API_JWT_SECRET: secret } } }
+      } as unknown as H3Event
+    }
+
+    it("should return 403 when a bound token is used from elsewhere", async () => {
+      const authorize = await authorizeEndpoint("api")
+
+      expect(await authorize(await createEvent({ "cf-connecting-ip": "203.0.113.5" }))).toMatchObject({
+        success: true
+      })
+      expect(await authorize(await createEvent({ "cf-connecting-ip": "198.51.100.1" }))).toEqual({
+        success: false,
+        error: "Token not allowed from IP address 198.51.100.1",
+        statusCode: 403
+      })
+    })
+  })
+})
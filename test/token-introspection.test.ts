@@ -0,0 +1,140 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import type { H3Event } from "h3"
+import { SignJWT } from "jose"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { generateAPIKey, hashAPIKey } from "~/server/utils/api-keys"
+import { ENDPOINT_SCOPES } from "~/server/utils/permissions"
+import { revocationCache } from "~/server/utils/revocation"
+import { introspectCredential, verifyCredential } from "~/server/utils/token-introspection"
+import { createMockD1, createMockKV } from "./cloudflare-mocks"
+
+const secret = "introspection-test-secret"
+
+// Serves api_keys rows by key_hash and token_usage rows by jti
+function createCredentialsD1(apiKeys: Record<string, unknown>[] = [], usage: Record<string, unknown> = {}) {
+  return createMockD1((sql, args) => {
+    const row = sql.includes("api_keys")
+      ? apiKeys.find((key) => key.key_hash === args[0])
+      : (usage[args[0] as string] as Record<string, unknown> | undefined)
+    return { results: row ? [row] : [] }
+  })
+}
+
+function createEvent(env: Record<string, unknown>) {
+  return {
+    node: { req: { headers: {} }, res: {} as ServerResponse },
+    req: {} as IncomingMessage,
+    context: { cloudflare: { env: { API_JWT_SECRET: secret, ...env } } }
+  } as unknown as H3Event
+}
+
+async function sign(claims: Record<string, unknown>) {
+  return new SignJWT({ iat: 1_800_000_000, ...claims })
+    .setProtectedHeader({ alg: "HS256" })
+    .sign(new TextEncoder().encode(secret))
+}
+
+describe("Token introspection", () => {
+  beforeEach(() => {
+    const globals = global as unknown as Record<string, unknown>
+    globals.useRuntimeConfig = () => ({ apiJwtSecret: secret })
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    revocationCache.clear()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("should describe permissions, expanded scopes and remaining quota", async () => {
+    const event = createEvent({
+      KV: createMockKV({ "token:jti-1:max-requests": "10" }),
+      D1: createCredentialsD1([], { "jti-1": { request_count: 4, last_used: null } })
+    })
+    const token = await sign({ sub: "api", jti: "jti-1", permissions: ["ai", "api:redirects"], exp: 4_000_000_000 })
+
+    expect(await introspectCredential(event, await verifyCredential(event, token))).toEqual({
+      active: true,
+      token_type: "jwt",
+      sub: "api",
+      jti: "jti-1",
+      iat: 1_800_000_000,
+      exp: 4_000_000_000,
+      scope: "ai api:redirects",
+      permissions: ["ai", "api:redirects"],
+      effective_scopes: ["ai:alt", "ai:social", "ai:word", "api:redirects"],
+      revoked: false,
+      request_count: 4,
+      max_requests: 10,
+      remaining_requests: 6
+    })
+  })
+
+  it("should fall back to the subject and expand wildcards to every scope", async () => {
+    const event = createEvent({})
+    const token = await sign({ sub: "*" })
+
+    expect(await introspectCredential(event, await verifyCredential(event, token))).toMatchObject({
+      active: true,
+      permissions: ["*"],
+      effective_scopes: ENDPOINT_SCOPES
+    })
+  })
+
+  it("should mark revoked tokens inactive", async () => {
+    const event = createEvent({ KV: createMockKV({ "token:jti-1:revoked": "true" }) })
+    const token = await sign({ sub: "api", jti: "jti-1" })
+
+    expect(await introspectCredential(event, await verifyCredential(event, token))).toMatchObject({
+      active: false,
+      revoked: true
+    })
+  })
+
+  it("should mark single-use tokens inactive once used", async () => {
+    const token = await sign({ sub: "ai:alt", jti: "jti-1", use: "once" })
+    const unused = createEvent({ D1: createCredentialsD1() })
+    const used = createEvent({ D1: createCredentialsD1([], { "jti-1": { request_count: 1, last_used: null } }) })
+
+    expect(await introspectCredential(unused, await verifyCredential(unused, token))).toMatchObject({
+      active: true,
+      max_requests: 1,
+      remaining_requests: 1
+    })
+    expect(await introspectCredential(used, await verifyCredential(used, token))).toMatchObject({
+      active: false,
+      revoked: false,
+      remaining_requests: 0
+    })
+  })
+
+  it("should report only inactive for invalid credentials", async () => {
+    const event = createEvent({ D1: createCredentialsD1() })
+
+    expect(await introspectCredential(event, await verifyCredential(event, "not.a.token"))).toEqual({ active: false })
+    expect(await introspectCredential(event, await verifyCredential(event, generateAPIKey()))).toEqual({
+      active: false
+    })
+  })
+
+  it("should introspect API keys", async () => {
+    const key = generateAPIKey()
+    const event = createEvent({
+      D1: createCredentialsD1([
+        {
+          id: "key-1",
+          key_hash: await hashAPIKey(key),
+          permissions: JSON.stringify(["api:token"]),
+          created_at: "2026-01-01T00:00:00.000Z"
+        }
+      ])
+    })
+
+    expect(await introspectCredential(event, await verifyCredential(event, key))).toMatchObject({
+      active: true,
+      token_type: "api_key",
+      sub: "api-key:key-1",
+      effective_scopes: ["api:token"]
+    })
+  })
+})
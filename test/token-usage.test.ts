@@ -0,0 +1,202 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import type { H3Event } from "h3"
+import { SignJWT } from "jose"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { authorizeEndpoint } from "~/server/utils/auth"
+import { getTokenMaxRequests, getTokenUsage, recordTokenUsage } from "~/server/utils/token-usage"
+import { createMockD1, createMockKV } from "./cloudflare-mocks"
+
+// In-memory stand-in for the token_usage table, mirroring the conditional UPSERT in recordTokenUsage
+// Each statement runs to completion before the next, so tests check the quota condition, not D1's atomicity
+function createTokenUsageD1() {
+  const rows = new Map<string, { request_count: number; last_used: string | null }>()
+
+  const db = createMockD1((sql, args) => {
+    if (!sql.includes("token_usage")) {
+      return undefined
+    }
+
+    const [jti, lastUsed, maxRequests] = args as [string, string, number | null]
+    if (sql.startsWith("SELECT")) {
+      const row = rows.get(jti)
+      return { results: row ? [row] : [] }
+    }
+
+    const row = rows.get(jti)
+    if (!row) {
+      rows.set(jti, { request_count: 1, last_used: lastUsed })
+      return { results: [{ request_count: 1 }] }
+    }
+    if (maxRequests !== null && row.request_count >= maxRequests) {
+      return undefined
+    }
+    row.request_count++
+    row.last_used = lastUsed
+    return { results: [{ request_count: row.request_count }] }
+  })
+
+  return { db, rows }
+}
+
+describe("Token usage", () => {
+  describe("recordTokenUsage", () => {
+    it("should count requests and stamp last use for unlimited tokens", async () => {
+      const { db } = createTokenUsageD1()
+
+      await recordTokenUsage(db, "jti-1", undefined, new Date("2026-01-01T00:00:00.000Z"))
+      const result = await recordTokenUsage(db, "jti-1", undefined, new Date("2026-01-02T00:00:00.000Z"))
+
+      expect(result).toEqual({ allowed: true, requestCount: 2, maxRequests: undefined, remaining: undefined })
+      expect(await getTokenUsage(db, "jti-1")).toEqual({ requestCount: 2, lastUsed: "2026-01-02T00:00:00.000Z" })
+      expect(await getTokenUsage(db, "unused")).toBeNull()
+    })
+
+    it("should stop counting at max-requests", async () => {
+      const { db, rows } = createTokenUsageD1()
+
+      const results = await Promise.all(Array.from({ length: 5 }, () => recordTokenUsage(db, "jti-1", 3)))
+
+      expect(results.filter((result) => result.allowed)).toHaveLength(3)
+      expect(results.map((result) => result.remaining).sort()).toEqual([0, 0, 0, 1, 2])
+      // Rejected requests aren't counted
+      expect(rows.get("jti-1")?.request_count).toBe(3)
+    })
+
+    it("should reject tokens with a zero quota without counting them", async () => {
+      const { db } = createTokenUsageD1()
+
+      expect(await recordTokenUsage(db, "jti-1", 0)).toMatchObject({ allowed: false, remaining: 0 })
+      expect(db.statements.every(({ sql }) => sql.startsWith("SELECT"))).toBe(true)
+    })
+  })
+
+  it("should read quotas from KV", async () => {
+    const kv = createMockKV({ "token:a:max-requests": "100", "token:b:max-requests": "lots" })
+
+    expect(await getTokenMaxRequests(kv, "a")).toBe(100)
+    expect(await getTokenMaxRequests(kv, "b")).toBeUndefined()
+    expect(await getTokenMaxRequests(kv, "c")).toBeUndefined()
+  })
+
+  describe("authorizeEndpoint quotas", () => {
+    const secret = "quota-test-secret"
+    const headers = new Map<string, string>()
+
+    beforeEach(() => {
+      headers.clear()
+      const globals = global as unknown as Record<string, unknown>
+      globals.getHeader = (event: H3Event, name: string) =>
+        (event as unknown as { node: { req: { headers: Record<string, string> } } }).node.req.headers[name]
+      globals.getQuery = () => ({})
+      globals.setHeader = (_event: H3Event, name: string, value: string) => headers.set(name, value)
+      globals.useRuntimeConfig = () => ({ apiJwtSecret: secret })
+      vi.spyOn(console, "log").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    async function authorize(env: Record<string, unknown>, jti = "quota-jti", claims: Record<string, unknown> = {}) {
+      const token = await new SignJWT({ sub: "api", iat: Math.floor(Date.now() / 1000), jti, ...claims })
+        .setProtectedHeader({ alg: "HS256" })
+        .sign(new TextEncoder().encode(secret))
+      const event = {
+        node: { req: { headers: { authorization: `Bearer ${token}` } }, res: {} as ServerResponse },
+        req: {} as IncomingMessage,
+        context: { cloudflare: { env: { API_JWT_SECRET: secret, ...env } } }
+      } as unknown as H3Event
+
+      return (await authorizeEndpoint("api"))(event)
+    }
+
+    it("should return remaining quota headers and reject with 429 once used up", async () => {
+      const { db } = createTokenUsageD1()
+      const env = { D1: db, KV: createMockKV({ "token:quota-jti:max-requests": "2" }) }
+
+      expect((await authorize(env)).success).toBe(true)
+      expect(headers.get("X-RateLimit-Limit")).toBe("2")
+      expect(headers.get("X-RateLimit-Remaining")).toBe("1")
+
+      expect((await authorize(env)).success).toBe(true)
+      expect(headers.get("X-RateLimit-Remaining")).toBe("0")
+
+      expect(await authorize(env)).toMatchObject({ success: false, statusCode: 429 })
+    })
+
+    it("should record usage without rate limit headers for unlimited tokens", async () => {
+      const { db, rows } = createTokenUsageD1()
+
+      expect((await authorize({ D1: db, KV: createMockKV() })).success).toBe(true)
+      expect(rows.get("quota-jti")?.request_count).toBe(1)
+      expect(headers.size).toBe(0)
+    })
+
+    it("should let requests through when usage can't be recorded", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+      vi.spyOn(console, "error").mockImplementation(() => {})
+      const failingDb = createMockD1(() => {
+        throw new Error("no such table: token_usage")
+      })
+
+      expect((await authorize({})).success).toBe(true)
+      expect((await authorize({ D1: failingDb, KV: createMockKV() })).success).toBe(true)
+    })
+
+    describe("single-use tokens", () => {
+      it("should allow the first request and reject replays, ignoring any quota", async () => {
+        const { db, rows } = createTokenUsageD1()
+        const env = { D1: db, KV: createMockKV({ "token:once-jti:max-requests": "10" }) }
+
+        expect((await authorize(env, "once-jti", { use: "once" })).success).toBe(true)
+        expect(await authorize(env, "once-jti", { use: "once" })).toEqual({
+          success: false,
+          error: "Single-use token has already been used"
+        })
+        expect(rows.get("once-jti")?.request_count).toBe(1)
+        expect(headers.size).toBe(0)
+      })
+
+      it("should let only the first of several requests through", async () => {
+        const { db } = createTokenUsageD1()
+
+        const results = await Promise.all(
+          Array.from({ length: 3 }, () => authorize({ D1: db }, "once-jti", { use: "once" }))
+        )
+
+        expect(results.filter((result) => result.success)).toHaveLength(1)
+      })
+
+      it("should not consume the token when the request is refused", async () => {
+        const { db, rows } = createTokenUsageD1()
+
+        expect(await authorize({ D1: db }, "once-jti", { use: "once", permissions: ["ai:alt"] })).toMatchObject({
+          success: false
+        })
+        expect(rows.has("once-jti")).toBe(false)
+      })
+
+      it("should fail closed when the use can't be recorded", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {})
+        const failingDb = createMockD1(() => {
+          throw new Error("no such table: token_usage")
+        })
+
+        expect(await authorize({}, "once-jti", { use: "once" })).toMatchObject({ success: false, statusCode: 503 })
+        expect(await authorize({ D1: failingDb }, "once-jti", { use: "once" })).toMatchObject({
+          success: false,
+          statusCode: 503
+        })
+      })
+
+      it("should reject single-use tokens without a jti", async () => {
+        const { db } = createTokenUsageD1()
+
+        expect(await authorize({ D1: db }, "", { use: "once" })).toEqual({
+          success: false,
+          error: "Single-use token has no jti"
+        })
+      })
+    })
+  })
+})
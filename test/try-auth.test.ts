@@ -51,6 +51,32 @@ describe("try.ts Auth Integration", () => {
       )
     })
 
+    it("should make tokens single-use with --once", async () => {
+      const { createToken } = await import("../bin/jwt")
+      const { getJWTSecret } = await import("../bin/shared/cli-utils")
+
+      vi.mocked(getJWTSecret).mockReturnValue("test-secret")
+      vi.mocked(createToken).mockResolvedValue({
+        token: "single-use-token",
+        metadata: {
+          uuid: "test-uuid",
+          sub: "ai:alt",
+          createdAt: new Date().toISOString(),
+          once: true
+        }
+      })
+
+      const { generateTokenForScope } = await import("../bin/try")
+
+      const options = { auth: true, once: true, script: false, quiet: true, dryRun: false }
+      expect(await generateTokenForScope("ai:alt", options)).toBe("single-use-token")
+      expect(createToken).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: "ai:alt", once: true }),
+        "test-secret",
+        false
+      )
+    })
+
     it("should handle missing JWT secret", async () => {
       const { getJWTSecret } = await import("../bin/shared/cli-utils")
 